@@ -0,0 +1,153 @@
+import { getScenarioMocks } from 'demo/mockRegistry';
+
+/**
+ * Runtime stand-in for `@salesforce/apex` methods.
+ *
+ * Responses come from the active preview scenario ("apex" mocks) or are requested
+ * from the VS Code extension, which reads JSON fixture files from the workspace.
+ * Fixtures are static, so the call parameters are not sent along.
+ * Every response uses the same envelope: { data, error, latency }.
+ */
+
+const REQUEST_TIMEOUT = 10000;
+
+const pendingRequests = new Map();
+const wiredValues = new WeakMap();
+let nextRequestId = 1;
+
+window.addEventListener('message', (event) => {
+    const message = event.data;
+    if (!message || message.type !== 'apexResponse' || !pendingRequests.has(message.requestId)) {
+        return;
+    }
+
+    const resolve = pendingRequests.get(message.requestId);
+    pendingRequests.delete(message.requestId);
+    resolve(message.response || {});
+});
+
+function requestFixture(methodName) {
+    return new Promise((resolve) => {
+        const requestId = nextRequestId++;
+        pendingRequests.set(requestId, resolve);
+
+        window.parent.postMessage({
+            type: 'apexRequest',
+            requestId,
+            methodName
+        }, '*');
+
+        setTimeout(() => {
+            if (pendingRequests.delete(requestId)) {
+                resolve({ error: `No response from LWC Preview for Apex method ${methodName}` });
+            }
+        }, REQUEST_TIMEOUT);
+    });
+}
+
+function delay(ms) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function resolveMock(methodName) {
+    const scenarioMocks = getScenarioMocks('apex');
+    const response = scenarioMocks && Object.prototype.hasOwnProperty.call(scenarioMocks, methodName)
+        ? scenarioMocks[methodName]
+        : await requestFixture(methodName);
+
+    if (response && response.latency > 0) {
+        await delay(response.latency);
+    }
+    return response || {};
+}
+
+/**
+ * Shape errors like the platform's Apex error responses
+ */
+function toApexError(error) {
+    if (typeof error === 'string') {
+        return { status: 500, statusText: 'Server Error', body: { message: error } };
+    }
+    return {
+        status: error.status || 500,
+        statusText: error.statusText || 'Server Error',
+        body: error.body || { message: error.message || 'Apex method failed' }
+    };
+}
+
+function hasUndefinedParam(config) {
+    return config !== undefined && Object.keys(config).some((key) => config[key] === undefined);
+}
+
+/**
+ * Create the default export of `@salesforce/apex/Class.method`:
+ * callable imperatively (returns a Promise) and usable with @wire via `.adapter`
+ */
+export function createApexMethod(methodName) {
+    function apexMethod() {
+        return resolveMock(methodName).then((response) => {
+            if (response.error) {
+                throw toApexError(response.error);
+            }
+            return response.data;
+        });
+    }
+
+    apexMethod.adapter = class ApexWireAdapter {
+        constructor(dataCallback) {
+            this.dataCallback = dataCallback;
+            this.config = undefined;
+        }
+
+        update(config) {
+            this.config = config;
+            // Like the platform, wait until every reactive parameter has a value
+            if (!hasUndefinedParam(config)) {
+                this.fetch();
+            }
+        }
+
+        connect() {}
+
+        disconnect() {}
+
+        fetch() {
+            const requestConfig = this.config;
+            return resolveMock(methodName).then((response) => {
+                if (requestConfig !== this.config) {
+                    return;
+                }
+                const value = response.error
+                    ? { data: undefined, error: toApexError(response.error) }
+                    : { data: response.data, error: undefined };
+                wiredValues.set(value, this);
+                this.dataCallback(value);
+            });
+        }
+    };
+
+    return apexMethod;
+}
+
+/**
+ * Re-run the Apex method that provisioned a wired value
+ */
+export function refreshApex(wiredValue) {
+    const adapter = wiredValue ? wiredValues.get(wiredValue) : undefined;
+    return adapter ? adapter.fetch() : Promise.resolve();
+}
+
+/**
+ * Read a field from an SObject using a schema reference or "Object.Field.Path" string
+ */
+export function getSObjectValue(sObject, field) {
+    const fieldPath = typeof field === 'string'
+        ? field.split('.').slice(1).join('.')
+        : field && field.fieldApiName;
+
+    if (!sObject || !fieldPath) {
+        return undefined;
+    }
+
+    return fieldPath.split('.').reduce((value, part) => (value == null ? undefined : value[part]), sObject);
+}
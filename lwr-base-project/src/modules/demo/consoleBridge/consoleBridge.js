@@ -0,0 +1,91 @@
+/**
+ * Forwards console output and uncaught errors of the preview to the VS Code extension.
+ *
+ * Console methods are patched when this module is first imported; the original
+ * methods still run, so browser developer tools keep working as before.
+ */
+
+const LEVELS = ['debug', 'log', 'info', 'warn', 'error'];
+const MAX_MESSAGE_LENGTH = 10000;
+
+let componentName = '';
+let isForwarding = false;
+
+/**
+ * Set the component name attached to forwarded messages
+ */
+export function setConsoleComponentName(name) {
+    componentName = name || '';
+}
+
+function formatArgument(value) {
+    if (typeof value === 'string') {
+        return value;
+    }
+    if (value instanceof Error) {
+        return value.stack || `${value.name}: ${value.message}`;
+    }
+    if (value === undefined || typeof value === 'function' || typeof value === 'symbol') {
+        return String(value);
+    }
+
+    try {
+        const seen = new WeakSet();
+        return JSON.stringify(value, (key, nested) => {
+            if (nested && typeof nested === 'object') {
+                if (seen.has(nested)) {
+                    return '[Circular]';
+                }
+                seen.add(nested);
+            }
+            return nested;
+        });
+    } catch (error) {
+        return String(value);
+    }
+}
+
+function forward(level, args) {
+    // Never forward messages produced while forwarding
+    if (isForwarding) {
+        return;
+    }
+
+    isForwarding = true;
+    try {
+        let message = args.map(formatArgument).join(' ');
+        if (message.length > MAX_MESSAGE_LENGTH) {
+            message = `${message.slice(0, MAX_MESSAGE_LENGTH)}… (truncated)`;
+        }
+
+        window.parent.postMessage({
+            type: 'consoleMessage',
+            level,
+            componentName,
+            message,
+            timestamp: Date.now()
+        }, '*');
+    } catch (error) {
+        // Forwarding is best effort
+    } finally {
+        isForwarding = false;
+    }
+}
+
+LEVELS.forEach((level) => {
+    const original = console[level];
+    console[level] = function (...args) {
+        forward(level, args);
+        return original.apply(console, args);
+    };
+});
+
+window.addEventListener('error', (event) => {
+    const details = event.error ? formatArgument(event.error) : event.message;
+    const location = event.filename ? ` (${event.filename}:${event.lineno}:${event.colno})` : '';
+    forward('error', [`Uncaught ${details}${location}`]);
+});
+
+window.addEventListener('unhandledrejection', (event) => {
+    forward('error', ['Unhandled promise rejection:', event.reason]);
+});
@@ -0,0 +1,99 @@
+/**
+ * Reports the events leaving the previewed component to the VS Code extension.
+ *
+ * Every event the component dispatches on its host is captured by wrapping the
+ * host's dispatchEvent, whether or not it bubbles. Event names listed in the
+ * active scenario are also listened for on the host, which catches composed
+ * events bubbling up from the component's children.
+ */
+
+let hostElement = null;
+let componentName = '';
+let listenedEventNames = [];
+let reportedEvents = new WeakSet();
+
+function toSerializable(value) {
+    if (value === undefined) {
+        return null;
+    }
+
+    try {
+        const seen = new WeakSet();
+        // Event details are often read-only proxies, so clone through JSON
+        return JSON.parse(JSON.stringify(value, (key, nested) => {
+            if (nested && typeof nested === 'object') {
+                if (seen.has(nested)) {
+                    return '[Circular]';
+                }
+                seen.add(nested);
+            }
+            return nested;
+        }));
+    } catch (error) {
+        return String(value);
+    }
+}
+
+function reportEvent(event) {
+    if (reportedEvents.has(event)) {
+        return;
+    }
+    reportedEvents.add(event);
+
+    window.parent.postMessage({
+        type: 'componentEvent',
+        componentName,
+        name: event.type,
+        detail: toSerializable(event.detail),
+        bubbles: event.bubbles,
+        composed: event.composed,
+        timestamp: Date.now()
+    }, '*');
+}
+
+function attach() {
+    const originalDispatchEvent = hostElement.dispatchEvent;
+    hostElement.dispatchEvent = function (event) {
+        reportEvent(event);
+        return originalDispatchEvent.call(this, event);
+    };
+    listenedEventNames.forEach((name) => hostElement.addEventListener(name, reportEvent));
+}
+
+function detach() {
+    // Removing the own property restores the prototype's dispatchEvent
+    delete hostElement.dispatchEvent;
+    listenedEventNames.forEach((name) => hostElement.removeEventListener(name, reportEvent));
+}
+
+/**
+ * Start reporting the events of a newly rendered component host element
+ */
+export function inspectComponentEvents(element, name) {
+    componentName = name || '';
+    if (element === hostElement) {
+        return;
+    }
+
+    if (hostElement) {
+        detach();
+    }
+    hostElement = element || null;
+    reportedEvents = new WeakSet();
+    if (hostElement) {
+        attach();
+    }
+}
+
+/**
+ * Set the additional event names (from the active scenario) listened for on the host
+ */
+export function setListenedEventNames(names) {
+    if (hostElement) {
+        detach();
+    }
+    listenedEventNames = Array.from(new Set((names || []).filter((name) => typeof name === 'string' && name)));
+    if (hostElement) {
+        attach();
+    }
+}
@@ -0,0 +1,171 @@
+import { getScenarioMocks, onScenarioMocksChange } from 'demo/mockRegistry';
+
+/**
+ * In-memory stand-in for the Lightning Data Service record cache.
+ *
+ * The store is seeded with the workspace record fixtures sent by the VS Code
+ * extension, overlaid with the active scenario's "records" mocks. Changes made
+ * by the previewed component live here until the store is seeded again.
+ */
+
+// Key prefixes of common objects, so generated ids look familiar
+const KEY_PREFIXES = {
+    Account: '001',
+    Contact: '003',
+    Opportunity: '006',
+    Lead: '00Q',
+    Case: '500',
+    User: '005'
+};
+const DEFAULT_KEY_PREFIX = 'a00';
+
+let fixtureRecords = null;
+let scenarioRecordsKey = '[]';
+let records = new Map();
+let nextRecordNumber = 1;
+const listeners = new Set();
+
+function clone(value) {
+    return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+function isPlainObject(value) {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Normalize a fixture field value into the UI API `{ value, displayValue }` shape.
+ * Nested objects with "fields" are relationship records.
+ */
+export function toFieldValue(value) {
+    if (isPlainObject(value) && Object.prototype.hasOwnProperty.call(value, 'value')) {
+        return {
+            value: isPlainObject(value.value) && value.value.fields ? toRecordRepresentation(value.value) : value.value,
+            displayValue: value.displayValue === undefined ? null : value.displayValue
+        };
+    }
+    if (isPlainObject(value) && value.fields) {
+        return { value: toRecordRepresentation(value), displayValue: null };
+    }
+    return { value: value === undefined ? null : value, displayValue: null };
+}
+
+/**
+ * Normalize a fixture record (`{ id, apiName, fields }`) into a UI API record representation
+ */
+export function toRecordRepresentation(raw) {
+    const fields = {};
+    Object.keys(raw.fields || {}).forEach((fieldName) => {
+        fields[fieldName] = toFieldValue(raw.fields[fieldName]);
+    });
+
+    return {
+        apiName: raw.apiName || null,
+        id: raw.id || null,
+        childRelationships: {},
+        fields,
+        lastModifiedById: null,
+        lastModifiedDate: raw.lastModifiedDate || null,
+        recordTypeId: raw.recordTypeId || null,
+        recordTypeInfo: null,
+        systemModstamp: raw.lastModifiedDate || null,
+        weakEtag: 0
+    };
+}
+
+function getScenarioRecords() {
+    const mocks = getScenarioMocks('records');
+    if (Array.isArray(mocks)) {
+        return mocks;
+    }
+    // Also accept an object keyed by record id
+    return isPlainObject(mocks) ? Object.keys(mocks).map((id) => ({ id, ...mocks[id] })) : [];
+}
+
+function notify(changedIds) {
+    listeners.forEach((listener) => listener(changedIds));
+}
+
+function rebuild() {
+    records = new Map();
+    fixtureRecords.concat(getScenarioRecords()).forEach((raw) => {
+        if (isPlainObject(raw) && raw.id) {
+            records.set(raw.id, toRecordRepresentation(raw));
+        }
+    });
+    notify(null);
+}
+
+onScenarioMocksChange(() => {
+    // Only scenario switches that change the records discard local edits
+    const key = JSON.stringify(getScenarioRecords());
+    if (key !== scenarioRecordsKey) {
+        scenarioRecordsKey = key;
+        if (fixtureRecords) {
+            rebuild();
+        }
+    }
+});
+
+/**
+ * Replace the store contents with the given fixtures (plus scenario records)
+ */
+export function seedRecords(rawRecords) {
+    fixtureRecords = Array.isArray(rawRecords) ? rawRecords : [];
+    rebuild();
+}
+
+/**
+ * Wire adapters wait for the first seed so they never report fixture records as missing
+ */
+export function isSeeded() {
+    return fixtureRecords !== null;
+}
+
+export function getStoredRecord(recordId) {
+    return clone(records.get(recordId));
+}
+
+export function getStoredRecords() {
+    return Array.from(records.values()).map(clone);
+}
+
+export function saveRecord(record) {
+    records.set(record.id, clone(record));
+    notify([record.id]);
+}
+
+export function removeRecord(recordId) {
+    const removed = records.delete(recordId);
+    if (removed) {
+        notify([recordId]);
+    }
+    return removed;
+}
+
+/**
+ * Notify subscribers that records changed without modifying them
+ */
+export function touchRecords(recordIds) {
+    notify(recordIds);
+}
+
+/**
+ * Subscribe to store changes; the listener receives the changed ids, or null when everything changed
+ */
+export function subscribe(listener) {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+/**
+ * Generate an 18 character id using the object's key prefix
+ */
+export function generateRecordId(apiName) {
+    const prefix = KEY_PREFIXES[apiName] || DEFAULT_KEY_PREFIX;
+    let recordId;
+    do {
+        recordId = prefix + String(nextRecordNumber++).padStart(12, '0') + 'AAA';
+    } while (records.has(recordId));
+    return recordId;
+}
@@ -0,0 +1,21 @@
+/**
+ * Registry of mock data supplied by the active preview scenario.
+ * Scenario files group mocks by kind (for example "apex" or "records");
+ * runtime stand-ins look up their kind here before falling back to other sources.
+ */
+let scenarioMocks = {};
+const listeners = new Set();
+
+export function setScenarioMocks(mocks) {
+    scenarioMocks = mocks || {};
+    listeners.forEach((listener) => listener(scenarioMocks));
+}
+
+export function getScenarioMocks(kind) {
+    return scenarioMocks[kind];
+}
+
+export function onScenarioMocksChange(listener) {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
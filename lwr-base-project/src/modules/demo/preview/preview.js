@@ -1,4 +1,20 @@
 import { LightningElement, api, track } from 'lwc';
+import { inspectComponentEvents } from 'demo/eventInspector';
+
+// Staged component files (server errors) or module URLs (browser stack frames), with an optional :line:column
+const STACK_LOCATION_PATTERN = /((?:[A-Za-z]:)?[^\s'"()]*src[\\/]modules[\\/]c[\\/][^\s'"():]+|https?:\/\/[^\s()]+?)(?::(\d+)(?::(\d+))?)?(?=[\s()]|:(?!\d)|$)/;
+
+function isSourceLocation(filePath) {
+  if (!/^https?:/.test(filePath)) {
+    return true;
+  }
+  // Only component modules served by LWR (".../mi/c%2FmyComponent...") map back to workspace files
+  try {
+    return decodeURIComponent(filePath).includes('/mi/c/');
+  } catch (error) {
+    return false;
+  }
+}
 
 export default class Preview extends LightningElement {
   @track componentConstructor;
@@ -9,6 +25,45 @@ export default class Preview extends LightningElement {
 
   _componentName = '';
   _previousComponentName = '';
+  _componentProperties = {};
+  _recordContext = {};
+  spreadProperties = {};
+  _slotContent = '';
+  _renderedSlotElement = null;
+  _renderedSlotContent = '';
+
+  get stackLines() {
+    return this.errorStack.split('\n').map((text, index) => {
+      const match = text.match(STACK_LOCATION_PATTERN);
+      if (!match || !isSourceLocation(match[1])) {
+        return { key: index, before: text, hasLink: false, linkText: '', after: '' };
+      }
+      return {
+        key: index,
+        before: text.slice(0, match.index),
+        hasLink: true,
+        linkText: match[0],
+        after: text.slice(match.index + match[0].length),
+        filePath: match[1],
+        line: match[2] ? Number(match[2]) : 1,
+        column: match[3] ? Number(match[3]) - 1 : 0
+      };
+    });
+  }
+
+  handleStackLinkClick(event) {
+    event.preventDefault();
+    const stackLine = this.stackLines[Number(event.currentTarget.dataset.index)];
+    if (stackLine && stackLine.hasLink) {
+      // The VS Code extension maps the location back to the workspace source file
+      window.parent.postMessage({
+        type: 'openSourceLocation',
+        filePath: stackLine.filePath,
+        line: stackLine.line,
+        column: stackLine.column
+      }, '*');
+    }
+  }
 
   get hasComponent() {
     return this.componentConstructor != null && !this.hasError;
@@ -25,6 +80,94 @@ export default class Preview extends LightningElement {
     this.loadComponent();
   }
 
+  @api
+  get componentProperties() {
+    return this._componentProperties;
+  }
+
+  set componentProperties(value) {
+    this._componentProperties = value || {};
+    this.updateSpreadProperties();
+  }
+
+  // Record page context (recordId / objectApiName) injected like the platform does
+  @api
+  get recordContext() {
+    return this._recordContext;
+  }
+
+  set recordContext(value) {
+    this._recordContext = value || {};
+    this.updateSpreadProperties();
+  }
+
+  updateSpreadProperties() {
+    const nextProperties = { ...this._componentProperties, ...this._recordContext };
+    const removedProperty = Object.keys(this.spreadProperties)
+      .some((name) => !Object.prototype.hasOwnProperty.call(nextProperties, name));
+
+    this.spreadProperties = nextProperties;
+
+    // lwc:spread cannot unset a property, so remount to restore its default value
+    if (removedProperty) {
+      this.remountComponent();
+    }
+  }
+
+  get hasSlotContent() {
+    return this._slotContent !== '';
+  }
+
+  @api
+  get slotContent() {
+    return this._slotContent;
+  }
+
+  set slotContent(value) {
+    this._slotContent = value || '';
+  }
+
+  @api
+  rerender() {
+    this.remountComponent();
+  }
+
+  renderedCallback() {
+    this.applySlotContent();
+
+    // Report the events dispatched by the currently mounted component instance
+    const host = this.template.querySelector('.preview-host');
+    inspectComponentEvents(host ? host.firstElementChild : null, this._componentName);
+  }
+
+  applySlotContent() {
+    const slotElement = this.template.querySelector('.preview-slot');
+    if (!slotElement) {
+      return;
+    }
+
+    // The slot element is recreated on every remount, so track both element and content
+    if (slotElement !== this._renderedSlotElement || this._slotContent !== this._renderedSlotContent) {
+      slotElement.innerHTML = this._slotContent;
+      this._renderedSlotElement = slotElement;
+      this._renderedSlotContent = this._slotContent;
+    }
+  }
+
+  remountComponent() {
+    const ctor = this.componentConstructor;
+    if (!ctor) {
+      return;
+    }
+
+    this.componentConstructor = null;
+    Promise.resolve().then(() => {
+      if (this.componentConstructor === null && !this.hasError) {
+        this.componentConstructor = ctor;
+      }
+    });
+  }
+
   async loadComponent() {
     // Clear previous component and error state if name changed
     if (this._componentName !== this._previousComponentName) {
@@ -66,7 +209,7 @@ export default class Preview extends LightningElement {
     // Check for common error types
     if (error.message) {
       if (error.message.includes('Cannot find module')) {
-        return `Component "c/${this._componentName}" does not exist. Make sure the component files are in force-app/main/default/lwc/${this._componentName}/ and have been synced.`;
+        return `Component "c/${this._componentName}" does not exist. Make sure the component files are in an lwc/${this._componentName}/ folder of a package directory in sfdx-project.json and have been synced.`;
       }
       if (error.message.includes('Unexpected token')) {
         return `Syntax error in component "${this._componentName}". Check the JavaScript file for syntax errors.`;
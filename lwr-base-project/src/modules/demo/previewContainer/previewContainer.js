@@ -1,7 +1,14 @@
 import { LightningElement, track } from 'lwc';
+import { setConsoleComponentName } from 'demo/consoleBridge';
+import { setScenarioMocks } from 'demo/mockRegistry';
+import { seedRecords, getStoredRecords } from 'demo/ldsStore';
+import { setListenedEventNames } from 'demo/eventInspector';
 
 export default class PreviewContainer extends LightningElement {
     @track componentName = '';
+    @track componentProperties = {};
+    @track recordContext = {};
+    slotContent = '';
 
     connectedCallback() {
         // Listen for messages from VS Code extension
@@ -22,8 +29,50 @@ export default class PreviewContainer extends LightningElement {
 
     handleMessage(event) {
         // Check if message is from VS Code extension (via iframe postMessage)
-        if (event.data && event.data.type === 'updateComponent') {
-            this.componentName = event.data.componentName || '';
+        if (!event.data) {
+            return;
+        }
+
+        if (event.data.type === 'updateComponent') {
+            const componentName = event.data.componentName || '';
+            if (componentName !== this.componentName) {
+                // Property values and scenario data belong to the previous component
+                this.componentProperties = {};
+                this.recordContext = {};
+                this.slotContent = '';
+                setScenarioMocks({});
+                setListenedEventNames([]);
+            }
+            this.componentName = componentName;
+            setConsoleComponentName(componentName);
+        } else if (event.data.type === 'updateProperties') {
+            // Ignore values sent for a component that is no longer displayed
+            if (event.data.componentName === this.componentName) {
+                this.componentProperties = { ...(event.data.properties || {}) };
+            }
+        } else if (event.data.type === 'updateRecordContext') {
+            if (event.data.componentName === this.componentName) {
+                this.recordContext = { ...(event.data.recordContext || {}) };
+            }
+        } else if (event.data.type === 'updateScenario') {
+            if (event.data.componentName === this.componentName) {
+                this.slotContent = event.data.slot || '';
+                setScenarioMocks(event.data.mocks);
+                setListenedEventNames(event.data.events);
+            }
+        } else if (event.data.type === 'seedRecords') {
+            seedRecords(event.data.records);
+        } else if (event.data.type === 'requestRecordStore') {
+            window.parent.postMessage({
+                type: 'recordStoreSnapshot',
+                requestId: event.data.requestId,
+                records: getStoredRecords()
+            }, '*');
+        } else if (event.data.type === 'rerenderComponent') {
+            const preview = this.template.querySelector('demo-preview');
+            if (preview) {
+                preview.rerender();
+            }
         }
     }
 }
@@ -0,0 +1,258 @@
+import {
+    generateRecordId,
+    getStoredRecord,
+    isSeeded,
+    removeRecord,
+    saveRecord,
+    subscribe,
+    toFieldValue,
+    touchRecords
+} from 'demo/ldsStore';
+
+/**
+ * Preview stand-in for `lightning/uiRecordApi`, backed by the local mock record store.
+ * Wired records are re-emitted whenever the store changes them.
+ */
+
+function toLdsError(status, statusText, errorCode, message) {
+    return { status, statusText, body: { errorCode, message } };
+}
+
+function notFoundError(recordId) {
+    return toLdsError(404, 'Not Found', 'NOT_FOUND', `The requested resource does not exist: ${recordId}`);
+}
+
+function toArray(value) {
+    if (value === undefined || value === null) {
+        return [];
+    }
+    return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Split a field reference ("Account.Owner.Name" or a schema object) into
+ * its object API name and the field path relative to the object
+ */
+function parseField(field) {
+    if (typeof field === 'string') {
+        const [objectApiName, ...path] = field.split('.');
+        return { objectApiName, path };
+    }
+    if (field && field.fieldApiName) {
+        return { objectApiName: field.objectApiName, path: field.fieldApiName.split('.') };
+    }
+    return { objectApiName: undefined, path: [] };
+}
+
+/**
+ * Walk a field path through relationship records, returning the leaf field value
+ */
+function readField(record, path) {
+    let current = record;
+    for (let index = 0; index < path.length; index++) {
+        const fieldName = path[index];
+        if (!current || !current.fields) {
+            return undefined;
+        }
+        const fieldValue = current.fields[fieldName];
+        if (!fieldValue) {
+            // The id is always known even when not stored as a field
+            return fieldName === 'Id' && index === path.length - 1 ? { value: current.id, displayValue: null } : undefined;
+        }
+        if (index === path.length - 1) {
+            return fieldValue;
+        }
+        current = fieldValue.value;
+    }
+    return undefined;
+}
+
+/**
+ * Reduce a record to the requested fields, like the UI API does
+ */
+function selectFields(record, config) {
+    const fields = toArray(config.fields);
+    const optionalFields = toArray(config.optionalFields);
+
+    // Layout based requests return every field
+    if (fields.length === 0 && optionalFields.length === 0) {
+        return { data: record };
+    }
+
+    const selected = {};
+    for (const field of fields) {
+        const { path } = parseField(field);
+        if (!readField(record, path)) {
+            const fieldName = typeof field === 'string' ? field : `${record.apiName}.${path.join('.')}`;
+            return {
+                error: toLdsError(400, 'Bad Request', 'INVALID_FIELD', `No such column '${fieldName}' on entity '${record.apiName}'`)
+            };
+        }
+        if (record.fields[path[0]]) {
+            selected[path[0]] = record.fields[path[0]];
+        }
+    }
+    for (const field of optionalFields) {
+        const { path } = parseField(field);
+        if (record.fields[path[0]]) {
+            selected[path[0]] = record.fields[path[0]];
+        }
+    }
+
+    return { data: { ...record, fields: selected } };
+}
+
+/**
+ * Wire adapter for `@wire(getRecord, { recordId, fields, optionalFields, layoutTypes })`
+ */
+export class getRecord {
+    constructor(dataCallback) {
+        this.dataCallback = dataCallback;
+        this.config = {};
+        this.unsubscribe = null;
+    }
+
+    update(config) {
+        this.config = config || {};
+        this.emit();
+    }
+
+    connect() {
+        this.unsubscribe = subscribe((changedIds) => {
+            if (!changedIds || changedIds.includes(this.config.recordId)) {
+                this.emit();
+            }
+        });
+    }
+
+    disconnect() {
+        if (this.unsubscribe) {
+            this.unsubscribe();
+            this.unsubscribe = null;
+        }
+    }
+
+    emit() {
+        const { recordId } = this.config;
+        // Like the platform, wait for a record id; also wait for the store to be seeded
+        if (!recordId || !isSeeded()) {
+            return;
+        }
+
+        const record = getStoredRecord(recordId);
+        if (!record) {
+            this.dataCallback({ data: undefined, error: notFoundError(recordId) });
+            return;
+        }
+
+        const { data, error } = selectFields(record, this.config);
+        this.dataCallback({ data, error });
+    }
+}
+
+/**
+ * Read a field value from a record returned by getRecord
+ */
+export function getFieldValue(record, field) {
+    const fieldValue = record ? readField(record, parseField(field).path) : undefined;
+    return fieldValue ? fieldValue.value : undefined;
+}
+
+/**
+ * Read a field display value from a record returned by getRecord
+ */
+export function getFieldDisplayValue(record, field) {
+    const fieldValue = record ? readField(record, parseField(field).path) : undefined;
+    return fieldValue ? fieldValue.displayValue : undefined;
+}
+
+function toFieldValues(fields) {
+    const values = {};
+    Object.keys(fields || {}).forEach((fieldName) => {
+        if (fieldName !== 'Id') {
+            values[fieldName] = toFieldValue(fields[fieldName]);
+        }
+    });
+    return values;
+}
+
+/**
+ * Create a record in the mock store: `createRecord({ apiName, fields })`
+ */
+export function createRecord(recordInput) {
+    return Promise.resolve().then(() => {
+        if (!recordInput || !recordInput.apiName) {
+            throw toLdsError(400, 'Bad Request', 'INVALID_INPUT', 'createRecord requires an apiName');
+        }
+
+        const now = new Date().toISOString();
+        const record = {
+            apiName: recordInput.apiName,
+            id: generateRecordId(recordInput.apiName),
+            childRelationships: {},
+            fields: toFieldValues(recordInput.fields),
+            lastModifiedById: null,
+            lastModifiedDate: now,
+            recordTypeId: null,
+            recordTypeInfo: null,
+            systemModstamp: now,
+            weakEtag: 1
+        };
+
+        saveRecord(record);
+        return getStoredRecord(record.id);
+    });
+}
+
+/**
+ * Update a record in the mock store: `updateRecord({ fields: { Id, ...changes } })`
+ */
+export function updateRecord(recordInput) {
+    return Promise.resolve().then(() => {
+        const fields = recordInput && recordInput.fields;
+        if (!fields || !fields.Id) {
+            throw toLdsError(400, 'Bad Request', 'INVALID_INPUT', 'updateRecord requires fields.Id');
+        }
+
+        const record = getStoredRecord(fields.Id);
+        if (!record) {
+            throw notFoundError(fields.Id);
+        }
+
+        const now = new Date().toISOString();
+        saveRecord({
+            ...record,
+            fields: { ...record.fields, ...toFieldValues(fields) },
+            lastModifiedDate: now,
+            systemModstamp: now,
+            weakEtag: record.weakEtag + 1
+        });
+        return getStoredRecord(fields.Id);
+    });
+}
+
+/**
+ * Delete a record from the mock store
+ */
+export function deleteRecord(recordId) {
+    return Promise.resolve().then(() => {
+        if (!removeRecord(recordId)) {
+            throw notFoundError(recordId);
+        }
+    });
+}
+
+/**
+ * Ask wired adapters to re-emit the given records: `notifyRecordUpdateAvailable([{ recordId }])`
+ */
+export function notifyRecordUpdateAvailable(recordIds) {
+    touchRecords(toArray(recordIds).map((item) => (item && item.recordId) || item));
+    return Promise.resolve();
+}
+
+/**
+ * Deprecated platform alias of notifyRecordUpdateAvailable
+ */
+export function getRecordNotifyChange(recordIds) {
+    notifyRecordUpdateAvailable(recordIds);
+}
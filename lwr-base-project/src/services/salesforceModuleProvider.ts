@@ -0,0 +1,340 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * LWR module provider that serves generated stand-ins for `@salesforce/*` scoped
+ * modules, which only exist on the Salesforce platform.
+ *
+ * Each generator returns module source for the specifiers it owns, or undefined
+ * to let the next generator (and ultimately the next provider) handle it.
+ *
+ * Workspace overrides (`.lwc-preview/salesforce.json`) are read from the SFDX project
+ * passed by the extension in LWC_PREVIEW_WORKSPACE_ROOT. Custom labels are read from the
+ * label files the extension resolves across all package directories and writes into
+ * `.lwc-preview/salesforce.json` of this project.
+ *
+ * Components are synced into the `c` namespace. When the project declares a namespace
+ * (passed in LWC_PREVIEW_NAMESPACE), `<namespace>/myComponent` is served as a
+ * re-export of `c/myComponent`, so both specifiers share a single module instance.
+ */
+
+type ModuleGenerator = (specifier: string) => string | undefined;
+
+const WORKSPACE_ROOT = process.env.LWC_PREVIEW_WORKSPACE_ROOT || '';
+const NAMESPACE = process.env.LWC_PREVIEW_NAMESPACE || '';
+const SYNCED_MODULES_PATH = 'src/modules/c';
+const DEFAULT_CUSTOM_LABELS_PATH = 'force-app/main/default/labels/CustomLabels.labels-meta.xml';
+const PREVIEW_SETTINGS_PATH = '.lwc-preview/salesforce.json';
+
+const APEX_SCOPE = '@salesforce/apex';
+const LABEL_SCOPE = '@salesforce/label/';
+const SCHEMA_SCOPE = '@salesforce/schema/';
+const USER_SCOPE = '@salesforce/user/';
+const I18N_SCOPE = '@salesforce/i18n/';
+const CLIENT_SCOPE = '@salesforce/client/';
+const RESOURCE_URL_SCOPE = '@salesforce/resourceUrl/';
+
+/**
+ * Defaults for each configurable scope, overridable per workspace through
+ * `.lwc-preview/salesforce.json` ({ "user": {...}, "i18n": {...}, "client": {...}, "resourceUrl": {...} })
+ */
+const DEFAULT_SETTINGS: Record<string, Record<string, unknown>> = {
+    user: {
+        Id: '005000000000000AAA',
+        isGuest: false
+    },
+    i18n: {
+        lang: 'en',
+        locale: 'en-US',
+        currency: 'USD',
+        timeZone: 'America/Los_Angeles',
+        dir: 'ltr',
+        firstDayOfWeek: 1,
+        'number.decimalSeparator': '.',
+        'number.groupingSeparator': ',',
+        'number.numberFormat': '#,##0.###',
+        'number.percentFormat': '#,##0%',
+        'number.currencyFormat': '¤#,##0.00',
+        'number.currencySymbol': '$',
+        'dateTime.shortDateFormat': 'M/d/yyyy',
+        'dateTime.mediumDateFormat': 'MMM d, yyyy',
+        'dateTime.longDateFormat': 'MMMM d, yyyy',
+        'dateTime.shortTimeFormat': 'h:mm a',
+        'dateTime.mediumTimeFormat': 'h:mm:ss a',
+        'dateTime.shortDateTimeFormat': 'M/d/yyyy, h:mm a',
+        'dateTime.mediumDateTimeFormat': 'MMM d, yyyy, h:mm:ss a'
+    },
+    client: {
+        formFactor: 'Large'
+    },
+    resourceUrl: {
+        baseUrl: '/resource'
+    }
+};
+
+/**
+ * Check if a parsed JSON value is an object, rather than an array, a primitive or null
+ */
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function readWorkspaceFile(relativePath: string): string | undefined {
+    if (!WORKSPACE_ROOT) {
+        return undefined;
+    }
+
+    const filePath = path.join(WORKSPACE_ROOT, relativePath);
+    try {
+        return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function getSettings(scope: string): Record<string, unknown> {
+    let overrides: Record<string, unknown> = {};
+    const content = readWorkspaceFile(PREVIEW_SETTINGS_PATH);
+
+    if (content) {
+        try {
+            const settings: unknown = JSON.parse(content);
+            const scopeOverrides = isJsonObject(settings) ? settings[scope] : undefined;
+            if (isJsonObject(scopeOverrides)) {
+                overrides = scopeOverrides;
+            }
+        } catch (error) {
+            console.error(`[LWC Preview] Invalid ${PREVIEW_SETTINGS_PATH}:`, error);
+        }
+    }
+
+    return { ...DEFAULT_SETTINGS[scope], ...overrides };
+}
+
+function decodeXml(value: string): string {
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Label files written by the extension, or the default location when the server
+ * runs without the extension
+ */
+function getCustomLabelFiles(): string[] {
+    const settingsPath = path.join(process.cwd(), PREVIEW_SETTINGS_PATH);
+    try {
+        if (fs.existsSync(settingsPath)) {
+            const settings: unknown = JSON.parse(fs.readFileSync(settingsPath, 'utf8'));
+            if (isJsonObject(settings) && Array.isArray(settings.labelFiles)) {
+                return settings.labelFiles.filter((labelFile: unknown): labelFile is string => typeof labelFile === 'string');
+            }
+        }
+    } catch (error) {
+        console.error(`[LWC Preview] Invalid ${settingsPath}:`, error);
+    }
+
+    return WORKSPACE_ROOT ? [path.join(WORKSPACE_ROOT, DEFAULT_CUSTOM_LABELS_PATH)] : [];
+}
+
+/**
+ * Read the labels of every label file; the first package directory defining a label wins
+ */
+function readCustomLabels(): Map<string, string> {
+    const labels = new Map<string, string>();
+
+    for (const labelFile of getCustomLabelFiles()) {
+        let content: string;
+        try {
+            content = fs.readFileSync(labelFile, 'utf8');
+        } catch {
+            continue;
+        }
+
+        const labelBlocks = content.match(/<labels>[\s\S]*?<\/labels>/g) || [];
+        for (const block of labelBlocks) {
+            const fullName = block.match(/<fullName>([\s\S]*?)<\/fullName>/);
+            const value = block.match(/<value>([\s\S]*?)<\/value>/);
+            const labelName = fullName ? decodeXml(fullName[1].trim()) : '';
+            if (fullName && value && !labels.has(labelName)) {
+                labels.set(labelName, decodeXml(value[1]));
+            }
+        }
+    }
+    return labels;
+}
+
+function exportDefault(value: unknown): string {
+    return `export default ${JSON.stringify(value)};\n`;
+}
+
+/**
+ * `@salesforce/apex` exports helpers, `@salesforce/apex/Class.method` exports a
+ * callable that also works as a wire adapter (see demo/apexMock)
+ */
+const generateApexModule: ModuleGenerator = (specifier) => {
+    if (specifier === APEX_SCOPE) {
+        return `export { refreshApex, getSObjectValue } from 'demo/apexMock';\n`;
+    }
+
+    if (specifier.startsWith(`${APEX_SCOPE}/`)) {
+        const methodName = specifier.slice(APEX_SCOPE.length + 1);
+        return [
+            `import { createApexMethod } from 'demo/apexMock';`,
+            `export default createApexMethod(${JSON.stringify(methodName)});`,
+            ''
+        ].join('\n');
+    }
+
+    return undefined;
+};
+
+/**
+ * `@salesforce/label/c.myLabel` resolves to the value in the project's label files,
+ * or to the label reference itself when the label is not defined locally
+ */
+const generateLabelModule: ModuleGenerator = (specifier) => {
+    if (!specifier.startsWith(LABEL_SCOPE)) {
+        return undefined;
+    }
+
+    const reference = specifier.slice(LABEL_SCOPE.length);
+    const labelName = reference.slice(reference.indexOf('.') + 1);
+    const value = readCustomLabels().get(labelName);
+    return exportDefault(value !== undefined ? value : reference);
+};
+
+/**
+ * `@salesforce/schema/Account` and `@salesforce/schema/Account.Owner.Name`
+ * resolve to object and field references
+ */
+const generateSchemaModule: ModuleGenerator = (specifier) => {
+    if (!specifier.startsWith(SCHEMA_SCOPE)) {
+        return undefined;
+    }
+
+    const [objectApiName, ...fieldPath] = specifier.slice(SCHEMA_SCOPE.length).split('.');
+    return exportDefault(fieldPath.length > 0
+        ? { objectApiName, fieldApiName: fieldPath.join('.') }
+        : { objectApiName });
+};
+
+/**
+ * `@salesforce/user/*`, `@salesforce/i18n/*`, `@salesforce/client/*` resolve to
+ * configured values for the requested property
+ */
+function createSettingsGenerator(scope: string, settingsKey: string): ModuleGenerator {
+    return (specifier) => {
+        if (!specifier.startsWith(scope)) {
+            return undefined;
+        }
+        return exportDefault(getSettings(settingsKey)[specifier.slice(scope.length)]);
+    };
+}
+
+/**
+ * `@salesforce/resourceUrl/myResource` resolves to `<baseUrl>/myResource`
+ */
+const generateResourceUrlModule: ModuleGenerator = (specifier) => {
+    if (!specifier.startsWith(RESOURCE_URL_SCOPE)) {
+        return undefined;
+    }
+
+    const baseUrl = String(getSettings('resourceUrl').baseUrl).replace(/\/$/, '');
+    return exportDefault(`${baseUrl}/${specifier.slice(RESOURCE_URL_SCOPE.length)}`);
+};
+
+/**
+ * `<namespace>/myComponent` re-exports the synced `c/myComponent`
+ */
+const generateNamespaceAliasModule: ModuleGenerator = (specifier) => {
+    if (!NAMESPACE || !specifier.startsWith(`${NAMESPACE}/`)) {
+        return undefined;
+    }
+
+    const moduleName = specifier.slice(NAMESPACE.length + 1);
+    // The LWR server runs from the LWR project root
+    const modulePath = path.join(process.cwd(), SYNCED_MODULES_PATH, moduleName);
+    let moduleSource: string;
+    try {
+        moduleSource = fs.readFileSync(path.join(modulePath, `${moduleName}.js`), 'utf8');
+    } catch {
+        return undefined;
+    }
+
+    const lines = [`export * from 'c/${moduleName}';`];
+    // `export *` skips the default export, and re-exporting a missing default fails to link
+    if (/export\s+default\b|export\s*\{[^}]*\bdefault\b/.test(moduleSource)) {
+        lines.push(`export { default } from 'c/${moduleName}';`);
+    }
+    return lines.join('\n') + '\n';
+};
+
+const MODULE_GENERATORS: ModuleGenerator[] = [
+    generateNamespaceAliasModule,
+    generateApexModule,
+    generateLabelModule,
+    generateSchemaModule,
+    createSettingsGenerator(USER_SCOPE, 'user'),
+    createSettingsGenerator(I18N_SCOPE, 'i18n'),
+    createSettingsGenerator(CLIENT_SCOPE, 'client'),
+    generateResourceUrlModule
+];
+
+function generateModuleSource(specifier: string): string | undefined {
+    for (const generator of MODULE_GENERATORS) {
+        const source = generator(specifier);
+        if (source !== undefined) {
+            return source;
+        }
+    }
+    return undefined;
+}
+
+function hashContent(source: string): string {
+    return createHash('md5').update(source).digest('hex');
+}
+
+export default class SalesforceModuleProvider {
+    name = 'salesforce-module-provider';
+    version = '1';
+
+    async getModuleEntry({ specifier }: { specifier: string }) {
+        if (generateModuleSource(specifier) === undefined) {
+            return undefined;
+        }
+
+        const virtualId = `<virtual>/${specifier}`;
+        return {
+            id: `${virtualId}|${this.version}`,
+            virtual: true,
+            entry: virtualId,
+            specifier,
+            version: this.version
+        };
+    }
+
+    async getModule({ specifier, namespace, name }: { specifier: string; namespace?: string; name?: string }) {
+        const moduleEntry = await this.getModuleEntry({ specifier });
+        if (!moduleEntry) {
+            return undefined;
+        }
+
+        const originalSource = generateModuleSource(specifier) as string;
+        return {
+            id: moduleEntry.id,
+            namespace,
+            name: name || specifier,
+            version: this.version,
+            specifier,
+            moduleEntry,
+            ownHash: hashContent(originalSource),
+            originalSource,
+            compiledSource: originalSource
+        };
+    }
+}
@@ -5,20 +5,60 @@
 export const LWR_SERVER_PORT = 8347;
 export const LWR_BASE_PROJECT_FOLDER = 'lwr-base-project';
 export const SFDX_PROJECT_FILE = 'sfdx-project.json';
-export const LWC_SOURCE_PATH = 'force-app/main/default/lwc';
+export const DEFAULT_PACKAGE_DIRECTORY = 'force-app';
+export const LWC_FOLDER_NAME = 'lwc';
+export const LABELS_FOLDER_NAME = 'labels';
+export const LABELS_FILE_SUFFIX = '.labels-meta.xml';
 export const LWR_MODULES_PATH = 'src/modules/c';
+export const SYNC_MANIFEST_FILE = '.lwc-preview-sync.json';
+export const SCENARIO_FILE_SUFFIX = '.preview.json';
+export const SCENARIO_FOLDER = '__previews__';
+export const APEX_MOCKS_PATH = '.lwc-preview/mocks/apex';
+export const RECORD_MOCKS_PATH = '.lwc-preview/mocks/records';
+// Written into the LWR project for its module provider, next to the workspace's own overrides file of the same name
+export const SERVER_SETTINGS_PATH = '.lwc-preview/salesforce.json';
+export const FORCEIGNORE_FILE = '.forceignore';
+export const PREVIEW_IGNORE_FILE = '.lwcpreviewignore';
+// Never synced unless re-included with `!pattern` in an ignore file
+export const DEFAULT_IGNORE_PATTERNS = ['__tests__/', '__mocks__/', '.DS_Store', '*.swp', '*.swo', '*~', '.#*'];
+// File types whose unsaved changes can be previewed
+export const LIVE_PREVIEW_EXTENSIONS = ['.html', '.js', '.css'];
+export const WORKSPACE_ROOT_ENV_VAR = 'LWC_PREVIEW_WORKSPACE_ROOT';
+export const NAMESPACE_ENV_VAR = 'LWC_PREVIEW_NAMESPACE';
+export const DEFAULT_NAMESPACE = 'c';
 
 export const SERVER_START_TIMEOUT = 30000; // 30 seconds
 export const SERVER_START_CHECK_INTERVAL = 1000; // 1 second
+export const SERVER_RESTART_TIMEOUT = 60000; // 60 seconds
+export const SERVER_HEALTH_CHECK_INTERVAL = 500; // 500ms
+export const SERVER_HEALTH_CHECK_TIMEOUT = 5000; // 5 seconds
+export const SERVER_RECOVERY_BASE_DELAY = 1000; // 1 second, doubled after every failed attempt
+export const SERVER_RECOVERY_MAX_ATTEMPTS = 5;
+export const SERVER_STOP_TIMEOUT = 5000; // 5 seconds before SIGKILL
+export const SERVER_PORT_RELEASE_TIMEOUT = 5000; // 5 seconds
+export const SERVER_RECOVERY_RESET_TIME = 60000; // 60 seconds of uptime forgive earlier crashes
 export const ERROR_DEBOUNCE_DELAY = 500; // 500ms
+export const SYNC_DEBOUNCE_DELAY = 200; // 200ms
+export const LIVE_PREVIEW_DEBOUNCE_DELAY = 300; // 300ms
+export const RECORD_STORE_REQUEST_TIMEOUT = 5000; // 5 seconds
 
 export const WEBVIEW_ID = 'lwcPreview';
 export const WEBVIEW_TITLE = 'LWC Preview';
+export const DEPENDENCY_GRAPH_VIEW_ID = 'lwcComponentDependencies';
+export const DEPENDENCY_GRAPH_VIEW_TITLE = 'Component Dependencies';
 
 export const COMMAND_TOGGLE_PREVIEW = 'lwc-preview.togglePreview';
+export const COMMAND_INSPECT_RECORD_STORE = 'lwc-preview.inspectRecordStore';
+export const COMMAND_RESET_RECORD_STORE = 'lwc-preview.resetRecordStore';
+export const COMMAND_SHOW_COMPONENT_DEPENDENCIES = 'lwc-preview.showComponentDependencies';
+export const COMMAND_SHOW_SERVER_OUTPUT = 'lwc-preview.showServerOutput';
 
 export const STATUS_BAR_PRIORITY = 100;
 
+export const CONSOLE_OUTPUT_CHANNEL_NAME = 'LWC Preview: Console';
+export const SERVER_OUTPUT_CHANNEL_NAME = 'LWC Preview: Server';
+export const DIAGNOSTIC_COLLECTION_NAME = 'lwc-preview';
+
 export const MESSAGE_TYPES = {
     UPDATE_COMPONENT: 'updateComponent',
     UPDATE_LOADING_STATE: 'updateLoadingState',
@@ -27,12 +67,42 @@ export const MESSAGE_TYPES = {
     COMPONENT_LOAD_COMPLETE: 'componentLoadComplete',
     LWC_READY: 'lwcReady',
     TOGGLE_AUTO_OPEN: 'toggleAutoOpen',
-    FORCE_RELOAD: 'forceReload'
+    FORCE_RELOAD: 'forceReload',
+    PREVIEW_READY: 'previewReady',
+    UPDATE_COMPONENT_STATE: 'updateComponentState',
+    SET_PROPERTY_VALUES: 'setPropertyValues',
+    SELECT_SCENARIO: 'selectScenario',
+    APEX_REQUEST: 'apexRequest',
+    APEX_RESPONSE: 'apexResponse',
+    SEED_RECORDS: 'seedRecords',
+    REQUEST_RECORD_STORE: 'requestRecordStore',
+    RECORD_STORE_SNAPSHOT: 'recordStoreSnapshot',
+    SET_RECORD_CONTEXT: 'setRecordContext',
+    CONSOLE_MESSAGE: 'consoleMessage',
+    EXPORT_EVENTS: 'exportEvents',
+    OPEN_SOURCE_LOCATION: 'openSourceLocation',
+    OPEN_COMPONENT: 'openComponent',
+    UPDATE_SERVER_STATE: 'updateServerState',
+    SHOW_SERVER_OUTPUT: 'showServerOutput'
 } as const;
 
 export const LOG_PREFIX = '[LWC Preview]';
 
 export const CONFIG_KEYS = {
-    AUTO_OPEN_PREVIEW: 'lwc-preview.autoOpenPreview'
+    AUTO_OPEN_PREVIEW: 'lwc-preview.autoOpenPreview',
+    CONSOLE_LOG_LEVEL: 'lwc-preview.consoleLogLevel',
+    PREVIEW_UNSAVED_CHANGES: 'lwc-preview.previewUnsavedChanges',
+    SYNC_STRATEGY: 'lwc-preview.syncStrategy',
+    LAZY_SYNC: 'lwc-preview.lazySync',
+    PORT: 'lwc-preview.port',
+    LOG_LEVEL: 'lwc-preview.logLevel'
+} as const;
+
+export const WORKSPACE_STATE_KEYS = {
+    PROPERTY_VALUES: 'lwc-preview.propertyValues',
+    ACTIVE_SCENARIOS: 'lwc-preview.activeScenarios',
+    RECORD_CONTEXTS: 'lwc-preview.recordContexts',
+    SYNC_BENCHMARKS: 'lwc-preview.syncBenchmarks',
+    SERVER_PROCESSES: 'lwc-preview.serverProcesses'
 } as const;
 
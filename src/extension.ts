@@ -4,151 +4,263 @@ import * as path from 'path';
 import {
     SFDX_PROJECT_FILE,
     COMMAND_TOGGLE_PREVIEW,
-    LOG_PREFIX,
+    COMMAND_INSPECT_RECORD_STORE,
+    COMMAND_RESET_RECORD_STORE,
+    COMMAND_SHOW_COMPONENT_DEPENDENCIES,
+    COMMAND_SHOW_SERVER_OUTPUT,
     LWR_SERVER_PORT,
-    LWC_SOURCE_PATH
+    SERVER_START_TIMEOUT,
+    CONFIG_KEYS
 } from './constants';
-import { getComponentInfo, ComponentInfo, isComponentValid, getComponentDirectoryPath } from './utils/componentResolver';
-import { cleanupComponentFolder } from './utils/fileSystem';
-import { ProjectSetupError, formatErrorForDisplay } from './utils/errorHandler';
+import {
+    getComponentInfo,
+    ComponentInfo,
+    isComponentValid,
+    getComponentDirectoryPath,
+    resolvePreviewSourcePath
+} from './utils/componentResolver';
+import { loadScenarios } from './utils/previewScenarios';
+import { resolveApexMock } from './utils/apexMocks';
+import { loadRecordFixtures } from './utils/recordFixtures';
+import { formatErrorForDisplay } from './utils/errorHandler';
+import { findAvailablePort } from './utils/serverPort';
+import { logger } from './utils/logger';
 
 // Services
 import { StatusBarManager } from './services/StatusBarManager';
+import { ConsoleOutputManager } from './services/ConsoleOutputManager';
 import { ProjectSetupService } from './services/ProjectSetupService';
-import { DependencyManager } from './services/DependencyManager';
-import { ServerManager } from './services/ServerManager';
 import { PreviewPanelManager } from './services/PreviewPanelManager';
-import { FileWatcherService } from './services/FileWatcherService';
+import { DependencyGraphPanelManager } from './services/DependencyGraphPanelManager';
+import { ProjectRuntime } from './services/ProjectRuntime';
 
 /**
  * Main extension class that orchestrates all services
+ * Every SFDX workspace folder gets its own preview runtime; the single preview panel
+ * shows components of whichever project they belong to
  */
 class LwcPreviewExtension {
     private statusBarManager: StatusBarManager;
+    private consoleOutputManager: ConsoleOutputManager;
     private projectSetupService: ProjectSetupService;
-    private dependencyManager: DependencyManager | null = null;
-    private serverManager: ServerManager | null = null;
     private previewPanelManager: PreviewPanelManager;
-    private fileWatcherService: FileWatcherService | null = null;
+    private dependencyGraphPanelManager: DependencyGraphPanelManager;
+    private runtimes = new Map<string, ProjectRuntime>();
+    private allocatedPorts = new Map<string, number>();
+    private portAllocation: Promise<unknown> = Promise.resolve();
 
-    private lwrProjectRoot: string | null = null;
-    private workspaceRoot: string | null = null;
-    private isSfdxProject: boolean = false;
     private previewCommand: vscode.Disposable | null = null;
     private isForceReloading: boolean = false;
 
     constructor(private readonly context: vscode.ExtensionContext) {
         this.statusBarManager = new StatusBarManager(context);
+        this.consoleOutputManager = new ConsoleOutputManager(context);
         this.projectSetupService = new ProjectSetupService(context);
         this.previewPanelManager = new PreviewPanelManager(context);
+        this.dependencyGraphPanelManager = new DependencyGraphPanelManager(context);
     }
 
     /**
      * Activate the extension
      */
     public async activate(): Promise<void> {
+        logger.initialize(this.context);
         this.statusBarManager.initialize();
         this.statusBarManager.showLoading();
 
-        this.isSfdxProject = this.checkIsSfdxProject();
+        this.consoleOutputManager.initialize();
+        this.configurePreviewPanel();
+        this.setupActiveEditorTracking();
+        this.registerCommands();
+
+        this.context.subscriptions.push(
+            vscode.workspace.onDidChangeWorkspaceFolders(async (event) => {
+                event.removed.forEach(folder => this.stopRuntime(folder));
+                this.updateStatusBars();
+                await Promise.all(event.added.map(folder => this.startRuntime(folder)));
+            })
+        );
 
-        if (!this.isSfdxProject) {
+        const workspaceFolders = vscode.workspace.workspaceFolders || [];
+        if (!workspaceFolders.some(folder => this.isSfdxFolder(folder))) {
             this.handleNonSfdxProject();
             return;
         }
 
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders || workspaceFolders.length === 0) {
-            this.statusBarManager.showError('No workspace folder found');
+        await Promise.all(workspaceFolders.map(folder => this.startRuntime(folder)));
+        await this.autoOpenPreviewForActiveEditor();
+    }
+
+    /**
+     * Check if a workspace folder is an SFDX project
+     */
+    private isSfdxFolder(folder: vscode.WorkspaceFolder): boolean {
+        return fs.existsSync(path.join(folder.uri.fsPath, SFDX_PROJECT_FILE));
+    }
+
+    /**
+     * Handle non-SFDX project scenario
+     */
+    private handleNonSfdxProject(): void {
+        this.statusBarManager.showWarning('Not an SFDX project');
+    }
+
+    /**
+     * Start the preview runtime of an SFDX workspace folder
+     * Non-SFDX folders and folders that already have a runtime are ignored
+     */
+    private async startRuntime(folder: vscode.WorkspaceFolder): Promise<void> {
+        const runtimeKey = folder.uri.toString();
+        if (this.runtimes.has(runtimeKey) || !this.isSfdxFolder(folder)) {
             return;
         }
-        this.workspaceRoot = workspaceFolders[0].uri.fsPath;
-
-        try {
-            this.lwrProjectRoot = await this.projectSetupService.setupLwrBaseProject();
 
-            this.dependencyManager = new DependencyManager(
-                this.lwrProjectRoot,
-                this.statusBarManager
-            );
+        const runtime = new ProjectRuntime(
+            this.context,
+            folder,
+            this.projectSetupService,
+            this.previewPanelManager
+        );
+        this.runtimes.set(runtimeKey, runtime);
+        runtime.statusBarManager.initialize();
+        this.updateStatusBars();
 
-            this.serverManager = new ServerManager(
-                this.lwrProjectRoot,
-                this.statusBarManager
-            );
+        try {
+            await runtime.cleanupStaleServer();
+            await runtime.start(() => this.allocatePort(runtimeKey));
+        } catch (error) {
+            const errorMessage = error instanceof Error
+                ? formatErrorForDisplay(error)
+                : String(error);
 
-            this.fileWatcherService = new FileWatcherService(
-                this.context,
-                this.workspaceRoot,
-                this.lwrProjectRoot,
-                this.statusBarManager,
-                this.previewPanelManager
-            );
+            logger.error(`Activation failed for ${folder.name}:`, error);
+            vscode.window.showErrorMessage(`Failed to activate LWC Preview for ${folder.name}: ${errorMessage}`);
+            runtime.statusBarManager.showError('Activation failed');
+        }
+    }
 
-            this.serverManager.setErrorCallback((errorInfo) => {
-                this.previewPanelManager.sendLwrError(errorInfo);
-            });
+    /**
+     * Stop the preview runtime of a removed workspace folder
+     */
+    private stopRuntime(folder: vscode.WorkspaceFolder): void {
+        const runtimeKey = folder.uri.toString();
+        const runtime = this.runtimes.get(runtimeKey);
+        if (!runtime) {
+            return;
+        }
 
-            this.previewPanelManager.setForceReloadCallback(async () => {
-                await this.handleForceReload();
-            });
+        if (runtime === this.getPreviewRuntime()) {
+            this.previewPanelManager.close();
+        }
 
-            this.fileWatcherService.setup();
-            this.setupActiveEditorTracking();
-            this.registerCommands();
+        runtime.dispose();
+        this.runtimes.delete(runtimeKey);
+        this.allocatedPorts.delete(runtimeKey);
+    }
 
-            await this.dependencyManager.ensureInstalled();
-            this.serverManager.start();
-            await this.waitForServerReady();
-            await this.fileWatcherService.initialSync();
+    /**
+     * Pick a free server port for a runtime, starting at the configured port
+     * Allocations run one at a time, so runtimes starting together never probe and claim the same port
+     */
+    private allocatePort(runtimeKey: string): Promise<number> {
+        const allocation = this.portAllocation.then(async () => {
+            const configuredPort = vscode.workspace.getConfiguration().get<number>(CONFIG_KEYS.PORT, LWR_SERVER_PORT);
+            const reservedPorts = new Set(
+                Array.from(this.allocatedPorts.entries())
+                    .filter(([key]) => key !== runtimeKey)
+                    .map(([, port]) => port)
+            );
 
-            if (this.serverManager.isReady) {
-                this.statusBarManager.showReady(LWR_SERVER_PORT);
-            }
+            const port = await findAvailablePort(configuredPort, reservedPorts);
+            this.allocatedPorts.set(runtimeKey, port);
+            return port;
+        });
 
-            await this.autoOpenPreviewForActiveEditor();
-        } catch (error) {
-            const errorMessage = error instanceof Error
-                ? formatErrorForDisplay(error)
-                : String(error);
+        this.portAllocation = allocation.catch(() => undefined);
+        return allocation;
+    }
 
-            console.error(`${LOG_PREFIX} Activation failed:`, error);
-            vscode.window.showErrorMessage(`Failed to activate LWC Preview: ${errorMessage}`);
-            this.statusBarManager.showError('Activation failed');
-        }
+    /**
+     * Get the runtime of the SFDX project a file belongs to
+     */
+    private getRuntimeForUri(uri: vscode.Uri): ProjectRuntime | null {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        return folder ? this.runtimes.get(folder.uri.toString()) || null : null;
     }
 
     /**
-     * Check if current workspace is an SFDX project
+     * Get the runtime of the project the preview panel shows
      */
-    private checkIsSfdxProject(): boolean {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders || workspaceFolders.length === 0) {
-            return false;
+    private getPreviewRuntime(): ProjectRuntime | null {
+        const workspaceRoot = this.previewPanelManager.getCurrentProject()?.workspaceRoot;
+        if (!workspaceRoot) {
+            return null;
         }
 
-        const sfdxProjectPath = path.join(
-            workspaceFolders[0].uri.fsPath,
-            SFDX_PROJECT_FILE
-        );
+        return Array.from(this.runtimes.values()).find(runtime => runtime.workspaceRoot === workspaceRoot) || null;
+    }
 
-        return fs.existsSync(sfdxProjectPath);
+    /**
+     * Show the status bar item of the previewed project, or else of the active editor's project
+     */
+    private updateStatusBars(): void {
+        const activeEditor = vscode.window.activeTextEditor;
+        const activeRuntime = this.getPreviewRuntime()
+            || (activeEditor ? this.getRuntimeForUri(activeEditor.document.uri) : null)
+            || this.runtimes.values().next().value
+            || null;
+
+        this.runtimes.forEach(runtime => runtime.statusBarManager.setVisible(runtime === activeRuntime));
+        this.statusBarManager.setVisible(this.runtimes.size === 0);
+        if (this.runtimes.size === 0) {
+            this.handleNonSfdxProject();
+        }
     }
 
     /**
-     * Handle non-SFDX project scenario
+     * Wire the preview panel to the runtime of the project it shows
      */
-    private handleNonSfdxProject(): void {
-        this.statusBarManager.showWarning('Not an SFDX project');
+    private configurePreviewPanel(): void {
+        this.previewPanelManager.setForceReloadCallback(async () => {
+            await this.handleForceReload();
+        });
 
-        // Register a disabled command that shows warning
-        this.context.subscriptions.push(
-            vscode.commands.registerCommand(COMMAND_TOGGLE_PREVIEW, () => {
-                vscode.window.showWarningMessage(
-                    'LWC Preview requires an SFDX project (sfdx-project.json not found)'
-                );
-            })
+        this.previewPanelManager.setConsoleMessageCallback((message) => {
+            this.consoleOutputManager.append(message);
+        });
+
+        this.previewPanelManager.setPropertiesProvider((componentName) =>
+            this.getPreviewRuntime()?.getPublicProperties(componentName) || []
         );
+
+        this.previewPanelManager.setScenariosProvider((componentName) => {
+            const componentDirPath = this.getPreviewRuntime()?.componentSourceService.getComponentDirectory(componentName);
+            return componentDirPath ? loadScenarios(componentDirPath, componentName) : [];
+        });
+
+        this.previewPanelManager.setApexMockProvider(async (methodName) => {
+            const runtime = this.getPreviewRuntime();
+            if (!runtime) {
+                return { error: 'No SFDX project is being previewed' };
+            }
+            return resolveApexMock(runtime.workspaceRoot, methodName);
+        });
+
+        this.previewPanelManager.setRecordFixturesProvider(() => {
+            const runtime = this.getPreviewRuntime();
+            return runtime ? loadRecordFixtures(runtime.workspaceRoot) : [];
+        });
+
+        this.previewPanelManager.setSourcePathResolver((filePath) => {
+            const runtime = this.getPreviewRuntime();
+            if (!runtime) {
+                return null;
+            }
+
+            return resolvePreviewSourcePath(filePath, (componentName) =>
+                runtime.componentSourceService.getComponentDirectory(componentName)
+            );
+        });
     }
 
     /**
@@ -159,15 +271,23 @@ class LwcPreviewExtension {
             async (editor) => {
                 if (!editor || this.isForceReloading) return;
 
+                this.updateStatusBars();
+
+                const runtime = this.getRuntimeForUri(editor.document.uri);
+                if (!runtime) {
+                    return;
+                }
+
                 const componentInfo = getComponentInfo(editor.document.uri.fsPath);
                 if (!componentInfo) return;
 
                 const componentDirPath = getComponentDirectoryPath(editor.document.uri.fsPath);
                 if (!componentDirPath) return;
 
+                const isPreviewedRuntime = runtime === this.getPreviewRuntime();
                 const isValid = isComponentValid(componentDirPath, componentInfo.componentName);
                 if (!isValid) {
-                    if (this.previewPanelManager.getCurrentComponentName() === componentInfo.componentName) {
+                    if (isPreviewedRuntime && this.previewPanelManager.getCurrentComponentName() === componentInfo.componentName) {
                         this.previewPanelManager.close();
                     }
                     return;
@@ -176,10 +296,15 @@ class LwcPreviewExtension {
                 if (!this.previewPanelManager.isOpen()) {
                     if (this.previewPanelManager.isAutoOpenEnabled()) {
                         this.previewPanelManager.setCurrentComponentName(componentInfo.componentName);
-                        await this.showPreview(componentInfo);
+                        await this.showPreview(componentInfo, runtime);
                     }
+                } else if (!isPreviewedRuntime) {
+                    // Components of another project are served by that project's server
+                    this.previewPanelManager.setCurrentComponentName(componentInfo.componentName);
+                    await this.showPreview(componentInfo, runtime);
                 } else if (componentInfo.componentName !== this.previewPanelManager.getCurrentComponentName()) {
                     this.previewPanelManager.setCurrentComponentName(componentInfo.componentName);
+                    await runtime.setPreviewedComponent(componentInfo.componentName);
                     this.previewPanelManager.updateComponent(componentInfo.componentName);
                 }
             }
@@ -195,13 +320,15 @@ class LwcPreviewExtension {
         this.previewCommand = vscode.commands.registerCommand(
             COMMAND_TOGGLE_PREVIEW,
             async () => {
-                if (!this.serverManager || !this.serverManager.isReady) {
-                    vscode.window.showWarningMessage('LWC Preview: Server is starting, please wait...');
+                if (this.previewPanelManager.isOpen()) {
+                    this.previewPanelManager.close();
                     return;
                 }
 
-                if (this.previewPanelManager.isOpen()) {
-                    this.previewPanelManager.close();
+                if (this.runtimes.size === 0) {
+                    vscode.window.showWarningMessage(
+                        'LWC Preview requires an SFDX project (sfdx-project.json not found)'
+                    );
                     return;
                 }
 
@@ -217,6 +344,17 @@ class LwcPreviewExtension {
                     return;
                 }
 
+                const runtime = this.getRuntimeForUri(activeEditor.document.uri);
+                if (!runtime) {
+                    vscode.window.showInformationMessage('LWC Preview: The component is not part of an SFDX project folder');
+                    return;
+                }
+
+                if (!runtime.isReady) {
+                    vscode.window.showWarningMessage('LWC Preview: Server is starting, please wait...');
+                    return;
+                }
+
                 const componentDirPath = getComponentDirectoryPath(activeEditor.document.uri.fsPath);
                 if (!componentDirPath) return;
 
@@ -229,66 +367,125 @@ class LwcPreviewExtension {
                 }
 
                 this.previewPanelManager.setCurrentComponentName(componentInfo.componentName);
-                await this.showPreview(componentInfo);
+                await this.showPreview(componentInfo, runtime);
             }
         );
 
         this.context.subscriptions.push(this.previewCommand);
+
+        this.context.subscriptions.push(
+            vscode.commands.registerCommand(COMMAND_INSPECT_RECORD_STORE, async () => {
+                await this.inspectRecordStore();
+            }),
+            vscode.commands.registerCommand(COMMAND_RESET_RECORD_STORE, () => {
+                const recordCount = this.previewPanelManager.seedRecordStore();
+                if (recordCount === null) {
+                    vscode.window.showInformationMessage('LWC Preview: Open a component preview to reset its mock records');
+                    return;
+                }
+                vscode.window.showInformationMessage(
+                    `LWC Preview: Mock record store reset to ${recordCount} fixture record${recordCount === 1 ? '' : 's'}`
+                );
+            }),
+            vscode.commands.registerCommand(COMMAND_SHOW_COMPONENT_DEPENDENCIES, () => {
+                this.showComponentDependencies();
+            }),
+            vscode.commands.registerCommand(COMMAND_SHOW_SERVER_OUTPUT, () => {
+                logger.show();
+            })
+        );
     }
 
     /**
-     * Show the preview panel
+     * Show the dependency tree of the active editor's component, or else of the previewed component
      */
-    private async showPreview(componentInfo: ComponentInfo | null): Promise<void> {
-        if (!this.serverManager) {
-            vscode.window.showErrorMessage('Server not initialized');
+    private showComponentDependencies(): void {
+        const activeEditor = vscode.window.activeTextEditor;
+        let runtime: ProjectRuntime | null = null;
+        let componentName: string | null = null;
+
+        if (activeEditor) {
+            runtime = this.getRuntimeForUri(activeEditor.document.uri);
+            componentName = getComponentInfo(activeEditor.document.uri.fsPath)?.componentName || null;
+        }
+
+        if (!runtime || !componentName) {
+            runtime = this.getPreviewRuntime();
+            componentName = this.previewPanelManager.getCurrentComponentName();
+        }
+
+        if (!runtime || !componentName) {
+            vscode.window.showInformationMessage('LWC Preview: Open an LWC component file to show its dependencies');
             return;
         }
 
-        const serverReady = this.serverManager.isReady;
-        await this.previewPanelManager.show(componentInfo, serverReady);
+        const componentRuntime = runtime;
+        const tree = componentRuntime.dependencyGraph.getDependencyTree(componentName);
 
-        if (!serverReady) {
-            await this.waitForServerReadyAndUpdate(componentInfo);
+        this.dependencyGraphPanelManager.show(tree, componentRuntime.workspaceFolder.name, async (name) => {
+            const componentDirPath = componentRuntime.componentSourceService.getComponentDirectory(name);
+            if (!componentDirPath) {
+                vscode.window.showWarningMessage(`LWC Preview: Component "${name}" is not defined in this project`);
+                return;
+            }
+
+            const document = await vscode.workspace.openTextDocument(path.join(componentDirPath, `${name}.js`));
+            await vscode.window.showTextDocument(document, vscode.ViewColumn.One);
+        });
+    }
+
+    /**
+     * Open the contents of the preview's mock record store as a JSON document
+     */
+    private async inspectRecordStore(): Promise<void> {
+        if (!this.previewPanelManager.isOpen()) {
+            vscode.window.showInformationMessage('LWC Preview: Open a component preview to inspect its mock records');
+            return;
+        }
+
+        const records = await this.previewPanelManager.requestRecordStoreSnapshot();
+        if (records === null) {
+            vscode.window.showWarningMessage('LWC Preview: The preview did not respond, please wait for it to finish loading');
+            return;
         }
+
+        const document = await vscode.workspace.openTextDocument({
+            language: 'json',
+            content: JSON.stringify(records, null, 2)
+        });
+        await vscode.window.showTextDocument(document, { preview: true, viewColumn: vscode.ViewColumn.One });
     }
 
     /**
-     * Wait for server to become ready and update preview
+     * Show the preview panel for a component of a project
      */
-    private async waitForServerReadyAndUpdate(componentInfo: ComponentInfo | null): Promise<void> {
-        const maxWaitTime = 30000;
-        const checkInterval = 1000;
-        let elapsed = 0;
+    private async showPreview(componentInfo: ComponentInfo | null, runtime: ProjectRuntime): Promise<void> {
+        await runtime.setPreviewedComponent(componentInfo?.componentName || null);
 
-        while (elapsed < maxWaitTime) {
-            await new Promise(resolve => setTimeout(resolve, checkInterval));
-            elapsed += checkInterval;
+        const serverReady = runtime.isReady;
+        await this.previewPanelManager.show(componentInfo, serverReady, runtime.getPreviewProject());
+        this.updateStatusBars();
 
-            if (this.serverManager?.isReady) {
-                this.previewPanelManager.onServerReady(componentInfo);
-                return;
-            }
+        if (!serverReady) {
+            await this.waitForServerReadyAndUpdate(componentInfo, runtime);
         }
     }
 
     /**
-     * Wait for server to be ready during activation
+     * Wait for a project's server to become ready and update preview
      */
-    private async waitForServerReady(): Promise<void> {
-        const maxWaitTime = 30000;
-        const checkInterval = 500;
-        let elapsed = 0;
-
-        while (elapsed < maxWaitTime) {
-            if (this.serverManager?.isReady) {
-                return;
-            }
-            await new Promise(resolve => setTimeout(resolve, checkInterval));
-            elapsed += checkInterval;
+    private async waitForServerReadyAndUpdate(componentInfo: ComponentInfo | null, runtime: ProjectRuntime): Promise<void> {
+        try {
+            await runtime.whenReady(SERVER_START_TIMEOUT);
+        } catch (error) {
+            logger.warn(`Preview of ${runtime.workspaceFolder.name} not updated:`, error);
+            return;
         }
 
-        throw new ProjectSetupError('Server failed to start within timeout');
+        // The preview may have moved on to another project meanwhile
+        if (runtime === this.getPreviewRuntime()) {
+            this.previewPanelManager.onServerReady(componentInfo);
+        }
     }
 
     /**
@@ -300,6 +497,11 @@ class LwcPreviewExtension {
         const activeEditor = vscode.window.activeTextEditor;
         if (!activeEditor) return;
 
+        const runtime = this.getRuntimeForUri(activeEditor.document.uri);
+        if (!runtime) {
+            return;
+        }
+
         const componentInfo = getComponentInfo(activeEditor.document.uri.fsPath);
         if (!componentInfo) return;
 
@@ -309,14 +511,15 @@ class LwcPreviewExtension {
         if (!isComponentValid(componentDirPath, componentInfo.componentName)) return;
 
         this.previewPanelManager.setCurrentComponentName(componentInfo.componentName);
-        await this.showPreview(componentInfo);
+        await this.showPreview(componentInfo, runtime);
     }
 
     /**
      * Handle force reload request from preview panel
      */
-    private async handleForceReload(): Promise<void> {
-        if (!this.serverManager) {
+    private async handleForceReload(runtime: ProjectRuntime | null = this.getPreviewRuntime()): Promise<void> {
+        const serverManager = runtime?.getServerManager();
+        if (!runtime || !serverManager) {
             throw new Error('Server manager not initialized');
         }
 
@@ -332,16 +535,12 @@ class LwcPreviewExtension {
                 },
                 async (progress) => {
                     try {
-                        if (!this.serverManager) {
-                            throw new Error('Server manager not available');
-                        }
-
                         progress.report({ increment: 0, message: "Closing preview..." });
                         this.previewPanelManager.close();
                         await new Promise(resolve => setTimeout(resolve, 500));
 
                         progress.report({ increment: 10, message: "Restarting server..." });
-                        await this.serverManager.restart();
+                        await serverManager.restart();
 
                         progress.report({ increment: 60, message: "Server ready!" });
 
@@ -351,17 +550,16 @@ class LwcPreviewExtension {
                         progress.report({ increment: 10, message: "Reopening preview..." });
 
                         if (currentComponent) {
-                            const lwcSourcePath = path.join(this.workspaceRoot!, LWC_SOURCE_PATH);
-                            const componentDirPath = path.join(lwcSourcePath, currentComponent);
+                            const componentDirPath = runtime.componentSourceService.getComponentDirectory(currentComponent);
 
-                            if (isComponentValid(componentDirPath, currentComponent)) {
+                            if (componentDirPath && isComponentValid(componentDirPath, currentComponent)) {
                                 const componentInfo: ComponentInfo = {
                                     componentName: currentComponent,
                                     modulePath: `c/${currentComponent}`
                                 };
 
                                 this.previewPanelManager.setCurrentComponentName(currentComponent);
-                                await this.showPreview(componentInfo);
+                                await this.showPreview(componentInfo, runtime);
                                 progress.report({ increment: 10, message: "Complete!" });
                             } else {
                                 vscode.window.showWarningMessage(
@@ -370,7 +568,7 @@ class LwcPreviewExtension {
                             }
                         }
                     } catch (error: any) {
-                        console.error(`${LOG_PREFIX} Force reload failed:`, error);
+                        logger.error('Force reload failed:', error);
 
                         const errorMessage = error?.message || String(error);
                         const result = await vscode.window.showErrorMessage(
@@ -380,7 +578,7 @@ class LwcPreviewExtension {
                         );
 
                         if (result === 'Retry') {
-                            await this.handleForceReload();
+                            await this.handleForceReload(runtime);
                         }
                     }
                 }
@@ -393,28 +591,23 @@ class LwcPreviewExtension {
             }
         } catch (error: any) {
             this.isForceReloading = false;
-            console.error(`${LOG_PREFIX} Force reload error:`, error);
+            logger.error('Force reload error:', error);
             throw error;
         }
     }
 
     /**
      * Deactivate the extension
+     * Resolves once every server process tree has exited, so none is left holding its port
      */
-    public deactivate(): void {
-        if (this.serverManager) {
-            this.serverManager.stop();
-        }
-
-        if (this.fileWatcherService) {
-            this.fileWatcherService.dispose();
-        }
+    public async deactivate(): Promise<void> {
+        const runtimesStopped = Promise.all(Array.from(this.runtimes.values()).map(runtime => runtime.dispose()));
+        this.runtimes.clear();
 
+        this.dependencyGraphPanelManager.dispose();
         this.statusBarManager.dispose();
 
-        if (this.isSfdxProject && this.lwrProjectRoot) {
-            cleanupComponentFolder(this.lwrProjectRoot);
-        }
+        await runtimesStopped;
     }
 }
 
@@ -432,9 +625,10 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 /**
  * Extension deactivation entry point
  */
-export function deactivate(): void {
+export async function deactivate(): Promise<void> {
     if (extensionInstance) {
-        extensionInstance.deactivate();
+        const instance = extensionInstance;
         extensionInstance = null;
+        await instance.deactivate();
     }
 }
@@ -0,0 +1,115 @@
+import { ComponentDependencyNode } from '../types';
+import { getDirectDependencies } from '../utils/componentDependencies';
+import { getNamespace } from '../utils/sfdxProject';
+import { ComponentSourceService } from './ComponentSourceService';
+
+/**
+ * Dependency graph of the components of a project, from `c/` imports and `<c-*>` template tags
+ *
+ * The direct dependencies of a component are scanned on first use and cached until
+ * the component changes, so only the components that are actually looked at are read.
+ */
+export class ComponentDependencyGraph {
+    private directDependencies = new Map<string, Set<string>>();
+    private namespace: string | null | undefined = undefined;
+
+    constructor(
+        private readonly workspaceRoot: string,
+        private readonly componentSourceService: ComponentSourceService
+    ) { }
+
+    /**
+     * Get the components a component references directly, including ones the project does not define
+     */
+    public getDirectDependencies(componentName: string): Set<string> {
+        let dependencies = this.directDependencies.get(componentName);
+        if (!dependencies) {
+            const componentDirPath = this.componentSourceService.getComponentDirectory(componentName);
+            if (!componentDirPath) {
+                return new Set();
+            }
+
+            if (this.namespace === undefined) {
+                this.namespace = getNamespace(this.workspaceRoot);
+            }
+            dependencies = getDirectDependencies(componentDirPath, this.namespace);
+            this.directDependencies.set(componentName, dependencies);
+        }
+
+        return dependencies;
+    }
+
+    /**
+     * Get a component and every project component it references, directly or transitively
+     */
+    public getComponentTree(componentName: string): Set<string> {
+        const tree = new Set<string>();
+        const queue = [componentName];
+
+        while (queue.length > 0) {
+            const name = queue.shift()!;
+            if (tree.has(name) || !this.componentSourceService.getComponentDirectory(name)) {
+                continue;
+            }
+
+            tree.add(name);
+            this.getDirectDependencies(name).forEach(dependency => queue.push(dependency));
+        }
+
+        return tree;
+    }
+
+    /**
+     * Check if a component uses another one, directly or transitively
+     * Also true when the other component is referenced but no longer exists
+     */
+    public dependsOn(componentName: string, dependencyName: string): boolean {
+        if (componentName === dependencyName) {
+            return false;
+        }
+
+        return Array.from(this.getComponentTree(componentName)).some(name =>
+            this.getDirectDependencies(name).has(dependencyName)
+        );
+    }
+
+    /**
+     * Get the dependency tree of a component for display
+     * Each component is expanded once; later occurrences (shared dependencies and cycles) are marked as repeated
+     */
+    public getDependencyTree(componentName: string): ComponentDependencyNode {
+        const expanded = new Set<string>();
+
+        const buildNode = (name: string): ComponentDependencyNode => {
+            const exists = !!this.componentSourceService.getComponentDirectory(name);
+            const isRepeated = expanded.has(name);
+            expanded.add(name);
+
+            return {
+                componentName: name,
+                exists,
+                isRepeated,
+                dependencies: exists && !isRepeated
+                    ? Array.from(this.getDirectDependencies(name)).sort().map(buildNode)
+                    : []
+            };
+        };
+
+        return buildNode(componentName);
+    }
+
+    /**
+     * Forget the cached dependencies of a changed component
+     */
+    public invalidate(componentName: string): void {
+        this.directDependencies.delete(componentName);
+    }
+
+    /**
+     * Forget all cached dependencies, e.g. after components were added or removed
+     */
+    public clear(): void {
+        this.directDependencies.clear();
+        this.namespace = undefined;
+    }
+}
@@ -0,0 +1,169 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SFDX_PROJECT_FILE } from '../constants';
+import { findLwcFolders } from '../utils/sfdxProject';
+import { IgnoreRule, isIgnoredPath, loadIgnoreRules } from '../utils/ignoreRules';
+import { logger } from '../utils/logger';
+
+/**
+ * Indexes the LWC components of every package directory in sfdx-project.json
+ *
+ * All components are staged into the single `c` namespace of the LWR project, so
+ * when two packages define a component with the same name, the one from the package
+ * directory listed first wins and the conflict is reported.
+ *
+ * Paths excluded by `.forceignore`, `.lwcpreviewignore` or the built-in ignore
+ * patterns are neither indexed nor synced.
+ */
+export class ComponentSourceService {
+    private lwcFolders: string[] = [];
+    private componentDirectories = new Map<string, string[]>();
+    private reportedConflicts = new Set<string>();
+    private ignoreRules: IgnoreRule[] = [];
+
+    constructor(private readonly workspaceRoot: string) { }
+
+    /**
+     * Re-read sfdx-project.json and the ignore files, rescan the LWC folders and report new conflicts
+     */
+    public refresh(): void {
+        this.ignoreRules = loadIgnoreRules(this.workspaceRoot);
+        this.lwcFolders = findLwcFolders(this.workspaceRoot);
+        this.componentDirectories.clear();
+
+        for (const lwcFolder of this.lwcFolders) {
+            let entries: fs.Dirent[];
+            try {
+                entries = fs.readdirSync(lwcFolder, { withFileTypes: true });
+            } catch (error) {
+                logger.error(`Failed to read ${lwcFolder}:`, error);
+                continue;
+            }
+
+            for (const entry of entries) {
+                const componentDirectory = path.join(lwcFolder, entry.name);
+                if (!entry.isDirectory() || entry.name.startsWith('.') || this.isIgnored(componentDirectory, true)) {
+                    continue;
+                }
+
+                const directories = this.componentDirectories.get(entry.name) || [];
+                directories.push(componentDirectory);
+                this.componentDirectories.set(entry.name, directories);
+            }
+        }
+
+        this.reportConflicts();
+    }
+
+    /**
+     * Check if a workspace path is excluded from syncing by the ignore rules
+     *
+     * @param filePath - Absolute path inside the workspace
+     * @param isDirectory - Whether the path is a directory; looked up on disk when omitted
+     */
+    public isIgnored(filePath: string, isDirectory?: boolean): boolean {
+        const relativePath = path.relative(this.workspaceRoot, filePath);
+        if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+            return false;
+        }
+
+        if (isDirectory === undefined) {
+            try {
+                isDirectory = fs.statSync(filePath).isDirectory();
+            } catch {
+                isDirectory = false;
+            }
+        }
+
+        return isIgnoredPath(this.ignoreRules, relativePath, isDirectory);
+    }
+
+    /**
+     * Get the LWC folders of all package directories
+     */
+    public getLwcFolders(): string[] {
+        return this.lwcFolders;
+    }
+
+    /**
+     * Get the names of all indexed components
+     */
+    public getComponentNames(): string[] {
+        return Array.from(this.componentDirectories.keys());
+    }
+
+    /**
+     * Get the source directory a component is previewed from
+     */
+    public getComponentDirectory(componentName: string): string | null {
+        return this.componentDirectories.get(componentName)?.[0] || null;
+    }
+
+    /**
+     * Get the LWC folder containing a file or directory
+     */
+    public findLwcFolder(filePath: string): string | null {
+        const normalizedPath = path.normalize(filePath);
+        return this.lwcFolders.find(lwcFolder =>
+            normalizedPath === lwcFolder || normalizedPath.startsWith(lwcFolder + path.sep)
+        ) || null;
+    }
+
+    /**
+     * Check if a file belongs to the source the preview uses
+     * Files of a component shadowed by a same-named component of an earlier package are not
+     *
+     * @param filePath - Path inside one of the LWC folders
+     * @returns False only for files of shadowed components
+     */
+    public isPreviewedSource(filePath: string): boolean {
+        const lwcFolder = this.findLwcFolder(filePath);
+        if (!lwcFolder) {
+            return false;
+        }
+
+        const componentName = path.relative(lwcFolder, filePath).split(path.sep)[0];
+        const componentDirectory = this.getComponentDirectory(componentName);
+
+        return !componentDirectory || componentDirectory === path.join(lwcFolder, componentName);
+    }
+
+    /**
+     * Warn about components defined in more than one package directory
+     * Each conflict is reported once until it is resolved
+     */
+    private reportConflicts(): void {
+        const conflicts = new Map<string, string[]>();
+        this.componentDirectories.forEach((directories, componentName) => {
+            if (directories.length > 1) {
+                conflicts.set(componentName, directories);
+            }
+        });
+
+        const newConflicts = Array.from(conflicts.keys()).filter(name => !this.reportedConflicts.has(name));
+        this.reportedConflicts = new Set(conflicts.keys());
+
+        if (newConflicts.length === 0) {
+            return;
+        }
+
+        newConflicts.forEach(componentName => {
+            const locations = conflicts.get(componentName)!.map(directory => path.relative(this.workspaceRoot, directory));
+            logger.warn(`Component "${componentName}" is defined in ${locations.join(', ')}; previewing ${locations[0]}`);
+        });
+
+        if (newConflicts.length === 1) {
+            const locations = conflicts.get(newConflicts[0])!.map(directory => path.relative(this.workspaceRoot, directory));
+            vscode.window.showWarningMessage(
+                `LWC Preview: Component "${newConflicts[0]}" is defined in multiple package directories (${locations.join(', ')}). ` +
+                `The preview uses ${locations[0]}.`
+            );
+        } else {
+            vscode.window.showWarningMessage(
+                `LWC Preview: ${newConflicts.length} components are defined in multiple package directories: ${newConflicts.join(', ')}. ` +
+                `The preview uses the package directory listed first in ${SFDX_PROJECT_FILE}.`
+            );
+        }
+    }
+}
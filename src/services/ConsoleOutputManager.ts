@@ -0,0 +1,78 @@
+import * as vscode from 'vscode';
+import { CONFIG_KEYS, CONSOLE_OUTPUT_CHANNEL_NAME } from '../constants';
+import { ConsoleLogLevel, ConsoleMessage } from '../types';
+
+/**
+ * Console levels in increasing severity
+ */
+const LEVEL_ORDER: ConsoleLogLevel[] = ['debug', 'log', 'info', 'warn', 'error'];
+
+/**
+ * Writes console output forwarded from the preview to a dedicated output channel
+ */
+export class ConsoleOutputManager {
+    private outputChannel: vscode.OutputChannel | null = null;
+    private minimumLevel: ConsoleLogLevel | 'off' = 'debug';
+
+    constructor(private readonly context: vscode.ExtensionContext) { }
+
+    /**
+     * Create the output channel and follow changes to the level setting
+     */
+    public initialize(): void {
+        this.outputChannel = vscode.window.createOutputChannel(CONSOLE_OUTPUT_CHANNEL_NAME);
+        this.context.subscriptions.push(this.outputChannel);
+        this.loadMinimumLevel();
+
+        this.context.subscriptions.push(
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration(CONFIG_KEYS.CONSOLE_LOG_LEVEL)) {
+                    this.loadMinimumLevel();
+                }
+            })
+        );
+    }
+
+    /**
+     * Load the minimum level to show from configuration
+     */
+    private loadMinimumLevel(): void {
+        const config = vscode.workspace.getConfiguration();
+        this.minimumLevel = config.get(CONFIG_KEYS.CONSOLE_LOG_LEVEL, 'debug');
+    }
+
+    /**
+     * Check if a message level passes the configured filter
+     */
+    private isLevelEnabled(level: ConsoleLogLevel): boolean {
+        if (this.minimumLevel === 'off') {
+            return false;
+        }
+        return LEVEL_ORDER.indexOf(level) >= LEVEL_ORDER.indexOf(this.minimumLevel);
+    }
+
+    /**
+     * Append a forwarded console message
+     * Lines look like `[12:30:45.123] [ERROR] [c/myComponent] message`
+     */
+    public append(message: ConsoleMessage): void {
+        if (!this.outputChannel || !this.isLevelEnabled(message.level)) {
+            return;
+        }
+
+        const timestamp = this.formatTimestamp(message.timestamp);
+        const component = message.componentName ? `c/${message.componentName}` : 'preview';
+        this.outputChannel.appendLine(
+            `[${timestamp}] [${message.level.toUpperCase()}] [${component}] ${message.message}`
+        );
+    }
+
+    /**
+     * Format a timestamp as local time with milliseconds
+     */
+    private formatTimestamp(timestamp: number): string {
+        const date = new Date(timestamp || Date.now());
+        const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+        return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+    }
+}
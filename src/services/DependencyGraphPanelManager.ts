@@ -0,0 +1,74 @@
+import * as vscode from 'vscode';
+import { DEPENDENCY_GRAPH_VIEW_ID, DEPENDENCY_GRAPH_VIEW_TITLE, MESSAGE_TYPES } from '../constants';
+import { ComponentDependencyNode } from '../types';
+import { getDependencyGraphHtml } from '../utils/dependencyGraphHtml';
+
+/**
+ * Shows the dependency tree of a component in a webview panel
+ */
+export class DependencyGraphPanelManager {
+    private panel: vscode.WebviewPanel | null = null;
+    private componentOpener: ((componentName: string) => Promise<void>) | null = null;
+
+    constructor(private readonly context: vscode.ExtensionContext) { }
+
+    /**
+     * Show a dependency tree, reusing the panel if it is already open
+     *
+     * @param tree - Dependency tree of the component
+     * @param projectName - Name of the SFDX project the component belongs to
+     * @param componentOpener - Opens a component of the tree when it is clicked
+     */
+    public show(
+        tree: ComponentDependencyNode,
+        projectName: string,
+        componentOpener: (componentName: string) => Promise<void>
+    ): void {
+        this.componentOpener = componentOpener;
+
+        if (!this.panel) {
+            this.panel = vscode.window.createWebviewPanel(
+                DEPENDENCY_GRAPH_VIEW_ID,
+                DEPENDENCY_GRAPH_VIEW_TITLE,
+                vscode.ViewColumn.Beside,
+                {
+                    enableScripts: true,
+                    localResourceRoots: []
+                }
+            );
+
+            this.panel.webview.onDidReceiveMessage(
+                async (message) => {
+                    if (message.type === MESSAGE_TYPES.OPEN_COMPONENT && this.componentOpener) {
+                        await this.componentOpener(message.componentName);
+                    }
+                },
+                null,
+                this.context.subscriptions
+            );
+
+            this.panel.onDidDispose(
+                () => {
+                    this.panel = null;
+                    this.componentOpener = null;
+                },
+                null,
+                this.context.subscriptions
+            );
+        }
+
+        this.panel.title = `${DEPENDENCY_GRAPH_VIEW_TITLE}: ${tree.componentName}`;
+        this.panel.webview.html = getDependencyGraphHtml(tree, projectName);
+        this.panel.reveal(undefined, true);
+    }
+
+    /**
+     * Close the panel
+     */
+    public dispose(): void {
+        if (this.panel) {
+            this.panel.dispose();
+            this.panel = null;
+        }
+    }
+}
@@ -1,9 +1,9 @@
-import * as child_process from 'child_process';
+import * as childProcess from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { LOG_PREFIX } from '../constants';
 import { StatusBarManager } from './StatusBarManager';
+import { logger } from '../utils/logger';
 
 /**
  * Manages npm dependencies for the LWR project
@@ -11,6 +11,7 @@ import { StatusBarManager } from './StatusBarManager';
 export class DependencyManager {
     constructor(
         private readonly projectRoot: string,
+        private readonly projectName: string,
         private readonly statusBarManager: StatusBarManager
     ) { }
 
@@ -26,11 +27,11 @@ export class DependencyManager {
             !fs.existsSync(path.join(nodeModulesPath, 'lwr'));
 
         if (!needsInstall) {
-            console.log(`${LOG_PREFIX} Dependencies already installed, skipping npm install`);
+            logger.info('Dependencies already installed, skipping npm install');
             return;
         }
 
-        console.log(`${LOG_PREFIX} Installing dependencies with npm install...`);
+        logger.info('Installing dependencies with npm install...');
         await this.runNpmInstall();
     }
 
@@ -40,11 +41,12 @@ export class DependencyManager {
     private async runNpmInstall(): Promise<void> {
         const command = 'install';
         const commandLabel = 'npm install';
+        const outputSource = `${commandLabel}:${this.projectName}`;
 
         this.statusBarManager.showSyncing('Installing dependencies...');
 
         return new Promise<void>((resolve, reject) => {
-            const npmProcess = child_process.spawn('npm', [command], {
+            const npmProcess = childProcess.spawn('npm', [command], {
                 cwd: this.projectRoot,
                 shell: true,
                 stdio: ['ignore', 'pipe', 'pipe']
@@ -52,18 +54,18 @@ export class DependencyManager {
 
             if (npmProcess.stdout) {
                 npmProcess.stdout.on('data', (data: Buffer) => {
-                    console.log(`[${commandLabel}]:`, data.toString());
+                    logger.appendOutput(outputSource, data.toString(), 'info');
                 });
             }
 
             if (npmProcess.stderr) {
                 npmProcess.stderr.on('data', (data: Buffer) => {
-                    console.log(`[${commandLabel} stderr]:`, data.toString());
+                    logger.appendOutput(outputSource, data.toString(), 'warn');
                 });
             }
 
             npmProcess.on('error', (error) => {
-                console.error(`[${commandLabel}] Failed:`, error);
+                logger.error(`${commandLabel} failed for ${this.projectName}:`, error);
                 this.statusBarManager.showError(`Failed to install dependencies: ${error.message}`);
                 vscode.window.showErrorMessage(
                     `LWC Preview: Failed to install dependencies - ${error.message}`
@@ -73,11 +75,11 @@ export class DependencyManager {
 
             npmProcess.on('close', (code: number) => {
                 if (code === 0) {
-                    console.log(`[${commandLabel}] Dependencies installed successfully`);
+                    logger.info(`Dependencies of ${this.projectName} installed successfully`);
                     this.statusBarManager.showLoading('Starting LWC Preview server...');
                     resolve();
                 } else {
-                    console.error(`[${commandLabel}] Process exited with code ${code}`);
+                    logger.error(`${commandLabel} for ${this.projectName} exited with code ${code}`);
                     this.statusBarManager.showError(
                         `Failed to install dependencies (exit code: ${code})`
                     );
@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DIAGNOSTIC_COLLECTION_NAME } from '../constants';
+import { resolveStagedSourcePath } from '../utils/componentResolver';
+import { LwrErrorInfo, LwrErrorLocation } from '../types';
+import { ComponentSourceService } from './ComponentSourceService';
+import { logger } from '../utils/logger';
+
+/**
+ * Publishes LWR compilation errors as diagnostics on the workspace source files
+ */
+export class DiagnosticsManager {
+    private diagnosticCollection: vscode.DiagnosticCollection | null = null;
+
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly componentSourceService: ComponentSourceService
+    ) { }
+
+    /**
+     * Create the diagnostic collection
+     */
+    public initialize(): void {
+        this.diagnosticCollection = vscode.languages.createDiagnosticCollection(DIAGNOSTIC_COLLECTION_NAME);
+        this.context.subscriptions.push(this.diagnosticCollection);
+    }
+
+    /**
+     * Publish an LWR error on every workspace file it points at
+     * Replaces earlier diagnostics of those files; errors without a known location are ignored
+     */
+    public publishLwrError(errorInfo: LwrErrorInfo): void {
+        if (!this.diagnosticCollection) {
+            return;
+        }
+
+        const diagnosticsByFile = new Map<string, vscode.Diagnostic[]>();
+
+        for (const location of errorInfo.locations) {
+            const sourcePath = resolveStagedSourcePath(location.filePath, (componentName) =>
+                this.componentSourceService.getComponentDirectory(componentName)
+            );
+            if (!sourcePath) {
+                continue;
+            }
+
+            const diagnostic = new vscode.Diagnostic(
+                this.getRange(sourcePath, location),
+                errorInfo.message,
+                vscode.DiagnosticSeverity.Error
+            );
+            diagnostic.source = 'LWC Preview';
+
+            const errorCode = errorInfo.stack.match(/LWC\d+/);
+            if (errorCode) {
+                diagnostic.code = errorCode[0];
+            }
+
+            const diagnostics = diagnosticsByFile.get(sourcePath) || [];
+            diagnostics.push(diagnostic);
+            diagnosticsByFile.set(sourcePath, diagnostics);
+        }
+
+        diagnosticsByFile.forEach((diagnostics, sourcePath) => {
+            this.diagnosticCollection?.set(vscode.Uri.file(sourcePath), diagnostics);
+        });
+    }
+
+    /**
+     * Compute the range to highlight: from the error column to the end of its line
+     */
+    private getRange(sourcePath: string, location: LwrErrorLocation): vscode.Range {
+        const line = Math.max(location.line - 1, 0);
+
+        try {
+            const lineText = fs.readFileSync(sourcePath, 'utf8').split(/\r?\n/)[line] || '';
+            const column = Math.min(location.column, lineText.length);
+            const endColumn = Math.max(lineText.length, column + 1);
+            return new vscode.Range(line, column, line, endColumn);
+        } catch (error) {
+            logger.error(`Failed to read ${sourcePath} for diagnostics:`, error);
+            return new vscode.Range(line, location.column, line, location.column + 1);
+        }
+    }
+
+    /**
+     * Clear the diagnostics of a synced file, or of every file inside a synced directory
+     */
+    public clearFile(filePath: string): void {
+        if (!this.diagnosticCollection) {
+            return;
+        }
+
+        const normalizedPath = path.normalize(filePath);
+        const directoryPrefix = normalizedPath + path.sep;
+        const staleUris: vscode.Uri[] = [];
+
+        this.diagnosticCollection.forEach((uri) => {
+            if (uri.fsPath === normalizedPath || uri.fsPath.startsWith(directoryPrefix)) {
+                staleUris.push(uri);
+            }
+        });
+
+        staleUris.forEach(uri => this.diagnosticCollection?.delete(uri));
+    }
+
+    /**
+     * Dispose the diagnostic collection
+     */
+    public dispose(): void {
+        if (this.diagnosticCollection) {
+            this.diagnosticCollection.dispose();
+            this.diagnosticCollection = null;
+        }
+    }
+}
@@ -1,101 +1,486 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { LWC_SOURCE_PATH, LWR_MODULES_PATH, LOG_PREFIX } from '../constants';
-import { copyDirectoryOptimized, copyFile, shouldCopyFile, deleteDirectoryRecursive } from '../utils/fileSystem';
+import {
+    LWR_MODULES_PATH,
+    SFDX_PROJECT_FILE,
+    FORCEIGNORE_FILE,
+    PREVIEW_IGNORE_FILE,
+    SYNC_MANIFEST_FILE,
+    SYNC_DEBOUNCE_DELAY,
+    CONFIG_KEYS,
+    WORKSPACE_STATE_KEYS
+} from '../constants';
+import { copyFile, shouldCopyFile, deleteDirectoryRecursive, isDirectory, listFilesRecursive } from '../utils/fileSystem';
+import { reconcileStagingFolder } from '../utils/syncManifest';
+import { linkComponentDirectory, linkStagingFolder, supportsDirectoryLinks } from '../utils/syncLinks';
+import { SyncBatch, SyncBenchmark, SyncEventKind, SyncStrategy } from '../types';
 import { StatusBarManager } from './StatusBarManager';
 import { PreviewPanelManager } from './PreviewPanelManager';
+import { DiagnosticsManager } from './DiagnosticsManager';
+import { ComponentSourceService } from './ComponentSourceService';
+import { ComponentDependencyGraph } from './ComponentDependencyGraph';
 import { getComponentInfo, isComponentValid, getComponentDirectoryPath } from '../utils/componentResolver';
+import { isScenarioPath } from '../utils/previewScenarios';
+import { logger } from '../utils/logger';
 
 /**
  * Manages file watching and synchronization between SFDX and LWR projects
+ * Watcher events are debounced and applied in batches, so mass changes such as a branch
+ * switch cause a single sync pass instead of one per file
  */
 export class FileWatcherService {
-    private fileWatcher: vscode.FileSystemWatcher | null = null;
+    private fileWatchers: vscode.FileSystemWatcher[] = [];
+    private configFileWatcher: vscode.FileSystemWatcher | null = null;
+    private configurationListener: vscode.Disposable | null = null;
+    private syncStrategy: SyncStrategy = 'copy';
+    private hasReportedLinkFallback: boolean = false;
+    private hasSynced: boolean = false;
+    private previewedComponentName: string | null = null;
+    /** Components synced by lazy sync, or null when all components are synced */
+    private lazyComponents: Set<string> | null = null;
     private isInitialCopyInProgress: boolean = false;
+    private pendingSyncEvents = new Map<string, SyncEventKind>();
+    private syncTimer: NodeJS.Timeout | null = null;
+    private isSyncQueueRunning: boolean = false;
 
     constructor(
         private readonly context: vscode.ExtensionContext,
         private readonly workspaceRoot: string,
         private readonly lwrProjectRoot: string,
         private readonly statusBarManager: StatusBarManager,
-        private readonly previewPanelManager: PreviewPanelManager
+        private readonly previewPanelManager: PreviewPanelManager,
+        private readonly diagnosticsManager: DiagnosticsManager,
+        private readonly componentSourceService: ComponentSourceService,
+        private readonly dependencyGraph: ComponentDependencyGraph
     ) { }
 
     /**
-     * Setup file watcher for LWC source files
+     * Setup file watchers for the LWC folders of every package directory,
+     * and for sfdx-project.json and the ignore files so their changes are picked up
      */
     public setup(): void {
-        const lwcSourcePath = path.join(this.workspaceRoot, LWC_SOURCE_PATH);
-        if (!fs.existsSync(lwcSourcePath)) return;
+        this.watchLwcFolders();
 
-        const pattern = new vscode.RelativePattern(lwcSourcePath, '**/*');
-        this.fileWatcher = vscode.workspace.createFileSystemWatcher(pattern);
+        const configFilePattern = new vscode.RelativePattern(
+            this.workspaceRoot,
+            `{${SFDX_PROJECT_FILE},${FORCEIGNORE_FILE},${PREVIEW_IGNORE_FILE}}`
+        );
+        this.configFileWatcher = vscode.workspace.createFileSystemWatcher(configFilePattern);
+        this.configFileWatcher.onDidCreate(async () => await this.handleConfigFileChange());
+        this.configFileWatcher.onDidChange(async () => await this.handleConfigFileChange());
+        this.configFileWatcher.onDidDelete(async () => await this.handleConfigFileChange());
+        this.context.subscriptions.push(this.configFileWatcher);
 
-        this.fileWatcher.onDidCreate(async (uri) => await this.handleFileChange(uri.fsPath));
-        this.fileWatcher.onDidChange(async (uri) => await this.handleFileChange(uri.fsPath));
-        this.fileWatcher.onDidDelete(async (uri) => await this.handleFileDelete(uri.fsPath));
+        this.configurationListener = vscode.workspace.onDidChangeConfiguration(async (event) => {
+            if (event.affectsConfiguration(CONFIG_KEYS.SYNC_STRATEGY) || event.affectsConfiguration(CONFIG_KEYS.LAZY_SYNC)) {
+                try {
+                    await this.initialSync();
+                } catch (error) {
+                    logger.error('Error applying sync settings:', error);
+                }
+            }
+        });
+    }
+
+    /**
+     * Create one watcher per LWC folder
+     */
+    private watchLwcFolders(): void {
+        for (const lwcFolder of this.componentSourceService.getLwcFolders()) {
+            const pattern = new vscode.RelativePattern(lwcFolder, '**/*');
+            const fileWatcher = vscode.workspace.createFileSystemWatcher(pattern);
+
+            fileWatcher.onDidCreate((uri) => this.queueSyncEvent(uri.fsPath, 'change'));
+            fileWatcher.onDidChange((uri) => this.queueSyncEvent(uri.fsPath, 'change'));
+            fileWatcher.onDidDelete((uri) => this.queueSyncEvent(uri.fsPath, 'delete'));
 
-        this.context.subscriptions.push(this.fileWatcher);
+            this.fileWatchers.push(fileWatcher);
+        }
     }
 
     /**
-     * Handle file creation or change
+     * Dispose the LWC folder watchers
      */
-    private async handleFileChange(filePath: string): Promise<void> {
-        const lwcSourcePath = path.join(this.workspaceRoot, LWC_SOURCE_PATH);
-        const destBasePath = path.join(this.lwrProjectRoot, LWR_MODULES_PATH);
-        const relativePath = path.relative(lwcSourcePath, filePath);
-        const destPath = path.join(destBasePath, relativePath);
+    private disposeLwcFolderWatchers(): void {
+        this.fileWatchers.forEach(fileWatcher => fileWatcher.dispose());
+        this.fileWatchers = [];
+    }
 
+    /**
+     * Reload package directories and ignore rules when sfdx-project.json or an ignore file changes,
+     * then watch the LWC folders again and reconcile the synced files with the new rules
+     */
+    private async handleConfigFileChange(): Promise<void> {
         try {
-            if (!fs.existsSync(filePath)) return;
+            this.componentSourceService.refresh();
+            this.dependencyGraph.clear();
+            this.disposeLwcFolderWatchers();
+            this.watchLwcFolders();
+            await this.initialSync();
+        } catch (error) {
+            logger.error('Error reloading project configuration:', error);
+        }
+    }
 
-            const stats = fs.statSync(filePath);
+    /**
+     * Check if a source path should be synced: scenario files and ignored paths are not
+     */
+    private shouldSync(srcPath: string): boolean {
+        return !isScenarioPath(srcPath) && !this.componentSourceService.isIgnored(srcPath);
+    }
 
-            if (stats.isDirectory()) {
-                await copyDirectoryOptimized(filePath, destPath);
-            } else if (stats.isFile()) {
-                if (shouldCopyFile(filePath, destPath)) {
-                    copyFile(filePath, destPath);
-                }
-                await this.checkComponentValidity(filePath);
-            }
+    /**
+     * Get the staged LWR project path of a file inside one of the LWC folders
+     */
+    private getDestPath(filePath: string): string | null {
+        const lwcFolder = this.componentSourceService.findLwcFolder(filePath);
+        if (!lwcFolder) {
+            return null;
+        }
 
-            this.previewPanelManager.clearLwrError();
-        } catch (error) {
-            console.error(`${LOG_PREFIX} Error handling file change:`, error);
+        return path.join(this.lwrProjectRoot, LWR_MODULES_PATH, path.relative(lwcFolder, filePath));
+    }
+
+    /**
+     * Check if a path is a component folder directly inside an LWC folder
+     */
+    private isComponentFolderPath(filePath: string): boolean {
+        const lwcFolder = this.componentSourceService.findLwcFolder(filePath);
+        return !!lwcFolder && path.dirname(path.normalize(filePath)) === lwcFolder;
+    }
+
+    /**
+     * Queue a watcher event; events arriving within SYNC_DEBOUNCE_DELAY of each other
+     * are applied in one batch, and only the last event of each path counts
+     */
+    private queueSyncEvent(filePath: string, kind: SyncEventKind): void {
+        this.pendingSyncEvents.set(path.normalize(filePath), kind);
+
+        if (this.syncTimer) {
+            clearTimeout(this.syncTimer);
         }
+        this.syncTimer = setTimeout(() => {
+            this.syncTimer = null;
+            this.processSyncQueue();
+        }, SYNC_DEBOUNCE_DELAY);
     }
 
     /**
-     * Handle file deletion
+     * Apply the queued events, then any events queued while they were applied
      */
-    private async handleFileDelete(filePath: string): Promise<void> {
-        const lwcSourcePath = path.join(this.workspaceRoot, LWC_SOURCE_PATH);
-        const destBasePath = path.join(this.lwrProjectRoot, LWR_MODULES_PATH);
-        const destPath = path.join(destBasePath, path.relative(lwcSourcePath, filePath));
+    private async processSyncQueue(): Promise<void> {
+        if (this.isSyncQueueRunning || this.pendingSyncEvents.size === 0) {
+            return;
+        }
+
+        const events = this.pendingSyncEvents;
+        this.pendingSyncEvents = new Map();
+        this.isSyncQueueRunning = true;
 
         try {
-            if (!fs.existsSync(destPath)) return;
+            await this.applySyncBatch(events);
+        } catch (error) {
+            logger.error('Error syncing file changes:', error);
+        } finally {
+            this.isSyncQueueRunning = false;
+        }
 
-            const stats = fs.statSync(destPath);
+        if (this.pendingSyncEvents.size > 0 && !this.syncTimer) {
+            await this.processSyncQueue();
+        }
+    }
 
-            if (stats.isDirectory()) {
-                deleteDirectoryRecursive(destPath);
+    /**
+     * Apply a batch of events in one pass: deletions first, then changes, parents before children,
+     * and update the preview once afterwards
+     */
+    private async applySyncBatch(events: Map<string, SyncEventKind>): Promise<void> {
+        const batch: SyncBatch = {
+            copied: 0,
+            unchanged: 0,
+            removed: 0,
+            changedComponents: new Map(),
+            removedComponents: new Set(),
+            scenarioComponents: new Set()
+        };
+        const deletedPaths: string[] = [];
+        const changedPaths: string[] = [];
+        const touchedComponents = new Set<string>();
+        let hasComponentFolderChanges = false;
 
+        events.forEach((kind, filePath) => {
+            if (!this.getDestPath(filePath)) {
+                return;
+            }
+
+            hasComponentFolderChanges = hasComponentFolderChanges || this.isComponentFolderPath(filePath);
+
+            const componentName = getComponentInfo(filePath)?.componentName;
+            if (componentName) {
+                touchedComponents.add(componentName);
+            }
+
+            // With lazy sync, components outside the previewed component tree are not synced
+            if (this.lazyComponents && !this.lazyComponents.has(componentName || '')) {
+                return;
+            }
+
+            // Scenario files are preview data and are never synced to the LWR project
+            if (isScenarioPath(filePath)) {
                 const componentInfo = getComponentInfo(filePath);
-                if (componentInfo?.componentName === this.previewPanelManager.getCurrentComponentName()) {
-                    this.previewPanelManager.close();
+                if (componentInfo) {
+                    batch.scenarioComponents.add(componentInfo.componentName);
                 }
+            } else if (kind === 'delete') {
+                deletedPaths.push(filePath);
             } else {
-                fs.unlinkSync(destPath);
-                await this.checkComponentValidity(filePath);
+                changedPaths.push(filePath);
+            }
+        });
+        deletedPaths.sort();
+        changedPaths.sort();
+
+        // Whether a deleted path was previewed must be known before the index forgets it
+        const wasPreviewedSource = new Map(deletedPaths.map(filePath =>
+            [filePath, this.componentSourceService.isPreviewedSource(filePath)] as const
+        ));
+
+        // Added or removed component folders may clash with components of other packages
+        if (hasComponentFolderChanges) {
+            this.componentSourceService.refresh();
+            this.dependencyGraph.clear();
+        } else {
+            touchedComponents.forEach(componentName => this.dependencyGraph.invalidate(componentName));
+        }
+
+        for (const filePath of deletedPaths) {
+            try {
+                this.syncDeletedPath(filePath, wasPreviewedSource.get(filePath)!, batch);
+            } catch (error) {
+                logger.error('Error handling file deletion:', error);
+            }
+        }
+
+        for (const filePath of changedPaths) {
+            try {
+                this.syncChangedPath(filePath, batch);
+            } catch (error) {
+                logger.error('Error handling file change:', error);
+            }
+        }
+
+        const hasNewComponents = this.updateLazyComponents();
+
+        if (batch.copied > 0 || batch.removed > 0) {
+            logger.debug(`Synced ${events.size} file events: ${batch.copied} copied, ${batch.removed} removed, ${batch.unchanged} unchanged`);
+            // LWR recompiles the synced files on the next request and reports them again if still broken
+            this.clearPreviewError();
+        }
+
+        await this.refreshPreview(batch, hasNewComponents);
+    }
+
+    /**
+     * Sync a created or changed file or directory, skipping files whose content is unchanged
+     */
+    private syncChangedPath(filePath: string, batch: SyncBatch): void {
+        const destPath = this.getDestPath(filePath);
+        if (!destPath || !fs.existsSync(filePath)) {
+            return;
+        }
+
+        const stats = fs.statSync(filePath);
+        if (this.componentSourceService.isIgnored(filePath, stats.isDirectory())) {
+            return;
+        }
+
+        if (!this.componentSourceService.isPreviewedSource(filePath)) {
+            logger.debug(`Skipping ${filePath}: shadowed by a component of another package`);
+            return;
+        }
+
+        if (this.syncStrategy === 'link') {
+            this.syncLinkedPath(filePath, destPath, batch);
+        } else if (stats.isDirectory()) {
+            this.syncDirectory(filePath, destPath, batch);
+        } else if (stats.isFile()) {
+            this.syncFile(filePath, destPath, batch);
+        }
+    }
+
+    /**
+     * Link a new component folder; other changes of linked components are already visible through their link
+     */
+    private syncLinkedPath(filePath: string, destPath: string, batch: SyncBatch): void {
+        const componentName = getComponentInfo(filePath)?.componentName;
+        if (!componentName) {
+            return;
+        }
+
+        if (this.isComponentFolderPath(filePath) && isDirectory(filePath)) {
+            linkComponentDirectory(filePath, destPath);
+        }
+
+        // Counted as copied so the preview is refreshed
+        batch.copied++;
+        batch.changedComponents.set(componentName, filePath);
+        this.diagnosticsManager.clearFile(filePath);
+    }
+
+    /**
+     * Remove the synced copy of a deleted file or directory
+     * A deleted component folder falls back to a same-named component of another package, if there is one
+     */
+    private syncDeletedPath(filePath: string, wasPreviewedSource: boolean, batch: SyncBatch): void {
+        const destPath = this.getDestPath(filePath);
+        if (!destPath) {
+            return;
+        }
+
+        // The deleted path can no longer be inspected, its synced copy tells whether it was a directory
+        if (this.componentSourceService.isIgnored(filePath, isDirectory(destPath))) {
+            return;
+        }
+
+        if (!wasPreviewedSource) {
+            return;
+        }
+
+        const componentName = getComponentInfo(filePath)?.componentName;
+        const fallbackDirPath = componentName && this.isComponentFolderPath(filePath)
+            ? this.componentSourceService.getComponentDirectory(componentName)
+            : null;
+
+        if (fallbackDirPath && this.syncStrategy === 'link') {
+            linkComponentDirectory(fallbackDirPath, destPath);
+            batch.copied++;
+            batch.changedComponents.set(componentName!, path.join(fallbackDirPath, `${componentName}.js`));
+            this.diagnosticsManager.clearFile(filePath);
+            return;
+        }
+
+        if (fallbackDirPath) {
+            deleteDirectoryRecursive(destPath);
+            this.syncDirectory(fallbackDirPath, destPath, batch);
+            this.diagnosticsManager.clearFile(filePath);
+            return;
+        }
+
+        // Deleted sources of linked components are already gone from the LWR project, only their links remain
+        if (this.syncStrategy === 'link') {
+            if (componentName && this.isComponentFolderPath(filePath)) {
+                deleteDirectoryRecursive(destPath);
+                batch.removedComponents.add(componentName);
+            } else if (componentName) {
+                batch.changedComponents.set(componentName, filePath);
+            }
+            batch.removed++;
+            this.diagnosticsManager.clearFile(filePath);
+            return;
+        }
+
+        if (!fs.existsSync(destPath)) {
+            return;
+        }
+
+        if (isDirectory(destPath)) {
+            batch.removed += listFilesRecursive(destPath).length;
+            deleteDirectoryRecursive(destPath);
+            if (componentName) {
+                batch.removedComponents.add(componentName);
+            }
+        } else {
+            fs.unlinkSync(destPath);
+            batch.removed++;
+            if (componentName) {
+                batch.changedComponents.set(componentName, filePath);
             }
+        }
+
+        this.diagnosticsManager.clearFile(filePath);
+    }
+
+    /**
+     * Sync the files of a source directory that pass the sync filter
+     */
+    private syncDirectory(srcDirPath: string, destDirPath: string, batch: SyncBatch): void {
+        for (const relativePath of listFilesRecursive(srcDirPath, (srcPath) => this.shouldSync(srcPath))) {
+            this.syncFile(path.join(srcDirPath, relativePath), path.join(destDirPath, relativePath), batch);
+        }
+    }
+
+    /**
+     * Copy a source file unless the synced copy already has the same content
+     */
+    private syncFile(srcPath: string, destPath: string, batch: SyncBatch): void {
+        if (!shouldCopyFile(srcPath, destPath)) {
+            batch.unchanged++;
+            return;
+        }
+
+        copyFile(srcPath, destPath);
+        batch.copied++;
+        this.diagnosticsManager.clearFile(srcPath);
+
+        const componentInfo = getComponentInfo(srcPath);
+        if (componentInfo) {
+            batch.changedComponents.set(componentInfo.componentName, srcPath);
+        }
+    }
+
+    /**
+     * Update the preview once for a whole batch: close it when its component was removed,
+     * reload it when components it uses changed, and re-check the component and reload its
+     * properties and scenarios when its own files changed
+     *
+     * @param hasNewComponents - Whether lazy sync added components the preview uses
+     */
+    private async refreshPreview(batch: SyncBatch, hasNewComponents: boolean): Promise<void> {
+        const componentName = this.previewPanelManager.getCurrentComponentName();
+        if (!componentName || !this.isPreviewedComponent(componentName)) {
+            return;
+        }
+
+        if (batch.removedComponents.has(componentName)) {
+            this.previewPanelManager.close();
+            return;
+        }
+
+        const changedDependency = Array.from(batch.changedComponents.keys())
+            .concat(Array.from(batch.removedComponents))
+            .find(dependencyName => this.dependencyGraph.dependsOn(componentName, dependencyName));
+
+        if (hasNewComponents || changedDependency) {
+            logger.info(`Reloading ${componentName}: ${changedDependency ? `it uses ${changedDependency}` : 'components it uses were synced'}`);
+            this.previewPanelManager.updateComponent(componentName);
+        }
 
+        const changedSourcePath = batch.changedComponents.get(componentName);
+        if (changedSourcePath) {
+            await this.checkComponentValidity(changedSourcePath);
+            this.previewPanelManager.refreshComponentProperties();
+        }
+
+        if (batch.scenarioComponents.has(componentName)) {
+            this.previewPanelManager.reloadScenarios();
+        }
+    }
+
+    /**
+     * Check if a component of this project is the one being previewed
+     */
+    private isPreviewedComponent(componentName: string | undefined): boolean {
+        return this.previewPanelManager.getCurrentProject()?.workspaceRoot === this.workspaceRoot &&
+            componentName === this.previewPanelManager.getCurrentComponentName();
+    }
+
+    /**
+     * Clear the preview's LWR error, when the preview shows this project
+     */
+    private clearPreviewError(): void {
+        if (this.previewPanelManager.getCurrentProject()?.workspaceRoot === this.workspaceRoot) {
             this.previewPanelManager.clearLwrError();
-        } catch (error) {
-            console.error(`${LOG_PREFIX} Error handling file deletion:`, error);
         }
     }
 
@@ -104,7 +489,7 @@ export class FileWatcherService {
      */
     private async checkComponentValidity(filePath: string): Promise<void> {
         const componentInfo = getComponentInfo(filePath);
-        if (!componentInfo || componentInfo.componentName !== this.previewPanelManager.getCurrentComponentName()) {
+        if (!componentInfo || !this.isPreviewedComponent(componentInfo.componentName)) {
             return;
         }
 
@@ -120,20 +505,25 @@ export class FileWatcherService {
     }
 
     /**
-     * Perform initial sync of all LWC components
+     * Reconcile the synced components with their sources
+     * Each component is synced from the package directory it is previewed from; synced files
+     * without a source (deleted, renamed or now ignored while the extension was not running) are removed
      */
     public async initialSync(): Promise<void> {
-        const lwcSourcePath = path.join(this.workspaceRoot, LWC_SOURCE_PATH);
-        const destPath = path.join(this.lwrProjectRoot, LWR_MODULES_PATH);
-
-        if (!fs.existsSync(lwcSourcePath)) return;
-
         try {
             this.isInitialCopyInProgress = true;
             this.statusBarManager.showSyncing('Syncing LWC components...');
-            await copyDirectoryOptimized(lwcSourcePath, destPath);
+
+            const startTime = Date.now();
+            this.syncStrategy = this.resolveSyncStrategy(path.join(this.lwrProjectRoot, LWR_MODULES_PATH));
+
+            const componentNames = this.getComponentsToSync();
+            const stagedFiles = this.syncStagingFolder(componentNames);
+
+            this.logSyncBenchmark({ durationMs: Date.now() - startTime, components: componentNames.length, stagedFiles });
+            this.hasSynced = true;
         } catch (error) {
-            console.error(`${LOG_PREFIX} Failed to sync LWC components:`, error);
+            logger.error('Failed to sync LWC components:', error);
             vscode.window.showErrorMessage('Failed to sync LWC components');
             this.statusBarManager.showWarning('Failed to sync components');
             throw error;
@@ -142,6 +532,129 @@ export class FileWatcherService {
         }
     }
 
+    /**
+     * Make the staging folder hold exactly the given components, with the current sync strategy
+     *
+     * @returns Number of files copied into the LWR project; none with the link strategy
+     */
+    private syncStagingFolder(componentNames: string[]): number {
+        const stagingRoot = path.join(this.lwrProjectRoot, LWR_MODULES_PATH);
+
+        if (this.syncStrategy === 'link') {
+            const componentDirectories = new Map(componentNames.map(componentName =>
+                [componentName, this.componentSourceService.getComponentDirectory(componentName)!] as const
+            ));
+            const result = linkStagingFolder(componentDirectories, stagingRoot);
+            logger.info(`Linked components: ${result.copied} linked, ${result.unchanged} unchanged, ${result.removed} removed`);
+            return 0;
+        }
+
+        const sourceFiles = new Map<string, string>();
+        for (const componentName of componentNames) {
+            const componentDirPath = this.componentSourceService.getComponentDirectory(componentName)!;
+            for (const relativePath of listFilesRecursive(componentDirPath, (srcPath) => this.shouldSync(srcPath))) {
+                sourceFiles.set(`${componentName}/${relativePath}`, path.join(componentDirPath, relativePath));
+            }
+        }
+
+        const result = reconcileStagingFolder(sourceFiles, stagingRoot, path.join(this.lwrProjectRoot, SYNC_MANIFEST_FILE));
+        logger.info(`Synced components: ${result.copied} copied, ${result.unchanged} unchanged, ${result.removed} removed`);
+        return sourceFiles.size;
+    }
+
+    /**
+     * Get the components to sync: all of them, or with lazy sync only the previewed
+     * component and the components it uses, found by scanning their sources
+     */
+    private getComponentsToSync(): string[] {
+        const config = vscode.workspace.getConfiguration();
+        if (!config.get<boolean>(CONFIG_KEYS.LAZY_SYNC, false)) {
+            this.lazyComponents = null;
+            return this.componentSourceService.getComponentNames();
+        }
+
+        this.lazyComponents = this.previewedComponentName
+            ? this.dependencyGraph.getComponentTree(this.previewedComponentName)
+            : new Set();
+        return Array.from(this.lazyComponents);
+    }
+
+    /**
+     * Track the component shown in the preview; with lazy sync, its component tree is synced before it returns
+     */
+    public async setPreviewedComponent(componentName: string | null): Promise<void> {
+        this.previewedComponentName = componentName;
+        if (!this.hasSynced || !this.lazyComponents) {
+            return;
+        }
+
+        try {
+            this.syncStagingFolder(this.getComponentsToSync());
+        } catch (error) {
+            logger.error(`Failed to sync ${componentName}:`, error);
+        }
+    }
+
+    /**
+     * With lazy sync, sync the components the previewed component started using and drop the ones it stopped using
+     *
+     * @returns True if components were added
+     */
+    private updateLazyComponents(): boolean {
+        const previousComponents = this.lazyComponents;
+        if (!previousComponents) {
+            return false;
+        }
+
+        const componentNames = this.getComponentsToSync();
+        const hasAddedComponents = componentNames.some(componentName => !previousComponents.has(componentName));
+        if (hasAddedComponents || componentNames.length !== previousComponents.size) {
+            this.syncStagingFolder(componentNames);
+        }
+
+        return hasAddedComponents;
+    }
+
+    /**
+     * Get the configured sync strategy, falling back to copying where directory links cannot be created
+     */
+    private resolveSyncStrategy(stagingRoot: string): SyncStrategy {
+        const config = vscode.workspace.getConfiguration();
+        const strategy = config.get<SyncStrategy>(CONFIG_KEYS.SYNC_STRATEGY, 'copy');
+
+        if (strategy !== 'link' || supportsDirectoryLinks(stagingRoot)) {
+            return strategy;
+        }
+
+        if (!this.hasReportedLinkFallback) {
+            this.hasReportedLinkFallback = true;
+            vscode.window.showWarningMessage(
+                'LWC Preview: Links to the component folders cannot be created on this file system. Components are copied instead.'
+            );
+        }
+        return 'copy';
+    }
+
+    /**
+     * Log the duration of the initial sync next to the last one measured with the other strategy
+     */
+    private logSyncBenchmark(benchmark: SyncBenchmark): void {
+        const benchmarks = this.context.workspaceState.get<Record<string, Partial<Record<SyncStrategy, SyncBenchmark>>>>(
+            WORKSPACE_STATE_KEYS.SYNC_BENCHMARKS,
+            {}
+        );
+        const projectBenchmarks = { ...benchmarks[this.workspaceRoot], [this.syncStrategy]: benchmark };
+        this.context.workspaceState.update(WORKSPACE_STATE_KEYS.SYNC_BENCHMARKS, { ...benchmarks, [this.workspaceRoot]: projectBenchmarks });
+
+        const describe = (strategy: SyncStrategy, { durationMs, components, stagedFiles }: SyncBenchmark) =>
+            `${strategy}: ${components} components, ${stagedFiles} files staged, ${durationMs}ms`;
+        const otherStrategy: SyncStrategy = this.syncStrategy === 'link' ? 'copy' : 'link';
+        const otherBenchmark = projectBenchmarks[otherStrategy];
+
+        logger.info(`Initial sync benchmark - ${describe(this.syncStrategy, benchmark)}` +
+            (otherBenchmark ? ` (last ${describe(otherStrategy, otherBenchmark)})` : ` (switch ${CONFIG_KEYS.SYNC_STRATEGY} to '${otherStrategy}' to compare)`));
+    }
+
     /**
      * Check if initial copy is in progress
      */
@@ -150,12 +663,23 @@ export class FileWatcherService {
     }
 
     /**
-     * Dispose file watcher
+     * Dispose file watchers
      */
     public dispose(): void {
-        if (this.fileWatcher) {
-            this.fileWatcher.dispose();
-            this.fileWatcher = null;
+        if (this.syncTimer) {
+            clearTimeout(this.syncTimer);
+            this.syncTimer = null;
+        }
+        this.pendingSyncEvents.clear();
+
+        this.disposeLwcFolderWatchers();
+        if (this.configurationListener) {
+            this.configurationListener.dispose();
+            this.configurationListener = null;
+        }
+        if (this.configFileWatcher) {
+            this.configFileWatcher.dispose();
+            this.configFileWatcher = null;
         }
     }
 }
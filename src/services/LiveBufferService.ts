@@ -0,0 +1,217 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONFIG_KEYS, LIVE_PREVIEW_DEBOUNCE_DELAY, LIVE_PREVIEW_EXTENSIONS, LWR_MODULES_PATH } from '../constants';
+import { copyFile, ensureDirectory, isSymbolicLink, shouldCopyFile } from '../utils/fileSystem';
+import { isScenarioPath } from '../utils/previewScenarios';
+import { PreviewPanelManager } from './PreviewPanelManager';
+import { DiagnosticsManager } from './DiagnosticsManager';
+import { ComponentSourceService } from './ComponentSourceService';
+import { logger } from '../utils/logger';
+
+/**
+ * Previews unsaved editor changes of component files ("preview as you type")
+ *
+ * Opt-in through the `lwc-preview.previewUnsavedChanges` setting. Dirty buffers are written
+ * to their synced copy after a short pause in typing, and the synced copy is restored from
+ * disk when the changes are discarded. Saved changes are left to the file watcher.
+ */
+export class LiveBufferService {
+    private enabled: boolean = false;
+    private pendingWrites = new Map<string, NodeJS.Timeout>();
+    private liveFiles = new Set<string>();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly workspaceRoot: string,
+        private readonly lwrProjectRoot: string,
+        private readonly previewPanelManager: PreviewPanelManager,
+        private readonly diagnosticsManager: DiagnosticsManager,
+        private readonly componentSourceService: ComponentSourceService
+    ) { }
+
+    /**
+     * Follow the setting and the editor buffers of component files
+     */
+    public initialize(): void {
+        this.loadEnabled();
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration(CONFIG_KEYS.PREVIEW_UNSAVED_CHANGES)) {
+                    this.loadEnabled();
+                }
+            }),
+            vscode.workspace.onDidChangeTextDocument(event => this.handleDocumentChange(event.document)),
+            vscode.workspace.onDidSaveTextDocument(document => this.forget(document.uri.fsPath)),
+            vscode.workspace.onDidCloseTextDocument(document => this.restoreFromDisk(document.uri.fsPath))
+        );
+    }
+
+    /**
+     * Load the setting; turning it off restores every previewed buffer from disk
+     */
+    private loadEnabled(): void {
+        const config = vscode.workspace.getConfiguration();
+        this.enabled = config.get(CONFIG_KEYS.PREVIEW_UNSAVED_CHANGES, false);
+
+        if (!this.enabled) {
+            this.restoreAll();
+        }
+    }
+
+    /**
+     * Get the synced path of a component file whose buffer can be previewed
+     *
+     * @returns Null for files of other projects, other file types, scenario files,
+     * ignored files and files of shadowed or linked components
+     */
+    private getDestPath(filePath: string): string | null {
+        if (!LIVE_PREVIEW_EXTENSIONS.includes(path.extname(filePath).toLowerCase())) {
+            return null;
+        }
+
+        const lwcFolder = this.componentSourceService.findLwcFolder(filePath);
+        if (!lwcFolder || isScenarioPath(filePath)) {
+            return null;
+        }
+
+        if (this.componentSourceService.isIgnored(filePath, false) || !this.componentSourceService.isPreviewedSource(filePath)) {
+            return null;
+        }
+
+        // Linked components are compiled from the workspace files, writing to them would save the buffer
+        const relativePath = path.relative(lwcFolder, filePath);
+        if (isSymbolicLink(path.join(this.lwrProjectRoot, LWR_MODULES_PATH, relativePath.split(path.sep)[0]))) {
+            return null;
+        }
+
+        return path.join(this.lwrProjectRoot, LWR_MODULES_PATH, relativePath);
+    }
+
+    /**
+     * Schedule a write of a dirty buffer, or restore the synced copy once the buffer is back to its saved state
+     */
+    private handleDocumentChange(document: vscode.TextDocument): void {
+        const filePath = document.uri.fsPath;
+        if (!this.enabled || document.uri.scheme !== 'file' || !this.getDestPath(filePath)) {
+            return;
+        }
+
+        this.cancelPendingWrite(filePath);
+
+        if (!document.isDirty) {
+            this.restoreFromDisk(filePath);
+            return;
+        }
+
+        this.pendingWrites.set(filePath, setTimeout(() => {
+            this.pendingWrites.delete(filePath);
+            this.writeBuffer(document);
+        }, LIVE_PREVIEW_DEBOUNCE_DELAY));
+    }
+
+    /**
+     * Write the contents of a dirty buffer to its synced copy
+     */
+    private writeBuffer(document: vscode.TextDocument): void {
+        const filePath = document.uri.fsPath;
+        const destPath = this.getDestPath(filePath);
+        if (!this.enabled || document.isClosed || !document.isDirty || !destPath) {
+            return;
+        }
+
+        try {
+            const content = document.getText();
+            if (fs.existsSync(destPath) && fs.readFileSync(destPath, 'utf8') === content) {
+                return;
+            }
+
+            ensureDirectory(path.dirname(destPath));
+            fs.writeFileSync(destPath, content);
+            this.liveFiles.add(filePath);
+
+            // LWR recompiles the buffer on the next request and reports it again if still broken
+            this.diagnosticsManager.clearFile(filePath);
+            this.clearPreviewError();
+        } catch (error) {
+            logger.error(`Failed to preview unsaved changes of ${filePath}:`, error);
+        }
+    }
+
+    /**
+     * Put the saved version of a file back into the LWR project after its buffer was previewed
+     */
+    private restoreFromDisk(filePath: string): void {
+        this.cancelPendingWrite(filePath);
+        if (!this.liveFiles.delete(filePath)) {
+            return;
+        }
+
+        const destPath = this.getDestPath(filePath);
+        if (!destPath) {
+            return;
+        }
+
+        try {
+            if (fs.existsSync(filePath)) {
+                if (shouldCopyFile(filePath, destPath)) {
+                    copyFile(filePath, destPath);
+                }
+            } else if (fs.existsSync(destPath)) {
+                fs.unlinkSync(destPath);
+            }
+
+            this.diagnosticsManager.clearFile(filePath);
+            this.clearPreviewError();
+        } catch (error) {
+            logger.error(`Failed to restore ${filePath}:`, error);
+        }
+    }
+
+    /**
+     * Restore every previewed buffer from disk
+     */
+    private restoreAll(): void {
+        this.pendingWrites.forEach(timer => clearTimeout(timer));
+        this.pendingWrites.clear();
+        Array.from(this.liveFiles).forEach(filePath => this.restoreFromDisk(filePath));
+    }
+
+    /**
+     * Stop tracking a saved file; the file watcher syncs what was written
+     */
+    private forget(filePath: string): void {
+        this.cancelPendingWrite(filePath);
+        this.liveFiles.delete(filePath);
+    }
+
+    /**
+     * Cancel a scheduled buffer write
+     */
+    private cancelPendingWrite(filePath: string): void {
+        const timer = this.pendingWrites.get(filePath);
+        if (timer) {
+            clearTimeout(timer);
+            this.pendingWrites.delete(filePath);
+        }
+    }
+
+    /**
+     * Clear the preview's LWR error, when the preview shows this project
+     */
+    private clearPreviewError(): void {
+        if (this.previewPanelManager.getCurrentProject()?.workspaceRoot === this.workspaceRoot) {
+            this.previewPanelManager.clearLwrError();
+        }
+    }
+
+    /**
+     * Restore previewed buffers from disk and stop listening
+     */
+    public dispose(): void {
+        this.restoreAll();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+}
@@ -1,17 +1,36 @@
 import * as vscode from 'vscode';
 import {
-    LWR_SERVER_PORT,
     WEBVIEW_ID,
     WEBVIEW_TITLE,
     SERVER_START_TIMEOUT,
     SERVER_START_CHECK_INTERVAL,
     MESSAGE_TYPES,
     CONFIG_KEYS,
-    LOG_PREFIX
+    WORKSPACE_STATE_KEYS,
+    RECORD_STORE_REQUEST_TIMEOUT,
+    SERVER_RECOVERY_MAX_ATTEMPTS,
+    COMMAND_SHOW_SERVER_OUTPUT
 } from '../constants';
 import { ComponentInfo } from '../utils/componentResolver';
 import { getLoadingHtml, getErrorHtml, getPreviewHtml } from '../utils/previewHtml';
-import { LwrErrorInfo, MessageType } from '../types';
+import {
+    ApexMockResponse,
+    ApexRequestMessage,
+    ComponentProperty,
+    ConsoleMessage,
+    ExportEventsMessage,
+    LwrErrorInfo,
+    MessageType,
+    OpenSourceLocationMessage,
+    PreviewProject,
+    PreviewScenario,
+    PropertyValues,
+    RecordContext,
+    RecordFixture,
+    RecordStoreSnapshotMessage,
+    ServerState
+} from '../types';
+import { logger } from '../utils/logger';
 
 /**
  * Manages the webview panel for component preview
@@ -19,9 +38,18 @@ import { LwrErrorInfo, MessageType } from '../types';
 export class PreviewPanelManager {
     private previewPanel: vscode.WebviewPanel | null = null;
     private currentComponentName: string | null = null;
+    private currentProject: PreviewProject | null = null;
     private hasActiveError: boolean = false;
     private autoOpenEnabled: boolean = true;
     private forceReloadCallback: (() => Promise<void>) | null = null;
+    private consoleMessageCallback: ((message: ConsoleMessage) => void) | null = null;
+    private propertiesProvider: ((componentName: string) => ComponentProperty[]) | null = null;
+    private scenariosProvider: ((componentName: string) => PreviewScenario[]) | null = null;
+    private apexMockProvider: ((methodName: string) => Promise<ApexMockResponse>) | null = null;
+    private recordFixturesProvider: (() => RecordFixture[]) | null = null;
+    private sourcePathResolver: ((filePath: string) => string | null) | null = null;
+    private pendingRecordStoreRequests = new Map<number, (records: unknown[] | null) => void>();
+    private nextRecordStoreRequestId = 1;
 
     constructor(private readonly context: vscode.ExtensionContext) {
         // Load auto-open preference from workspace configuration
@@ -42,6 +70,13 @@ export class PreviewPanelManager {
         this.currentComponentName = name;
     }
 
+    /**
+     * Get the SFDX project of the previewed component
+     */
+    public getCurrentProject(): PreviewProject | null {
+        return this.currentProject;
+    }
+
     /**
      * Check if preview panel is open
      */
@@ -90,6 +125,290 @@ export class PreviewPanelManager {
         }
     }
 
+    /**
+     * Set callback for console output forwarded from the preview
+     */
+    public setConsoleMessageCallback(callback: (message: ConsoleMessage) => void): void {
+        this.consoleMessageCallback = callback;
+    }
+
+    /**
+     * Set provider used to discover the public properties of a component
+     */
+    public setPropertiesProvider(provider: (componentName: string) => ComponentProperty[]): void {
+        this.propertiesProvider = provider;
+    }
+
+    /**
+     * Set provider used to load the preview scenarios of a component
+     */
+    public setScenariosProvider(provider: (componentName: string) => PreviewScenario[]): void {
+        this.scenariosProvider = provider;
+    }
+
+    /**
+     * Set provider used to answer mocked Apex calls made by the previewed component
+     */
+    public setApexMockProvider(provider: (methodName: string) => Promise<ApexMockResponse>): void {
+        this.apexMockProvider = provider;
+    }
+
+    /**
+     * Set provider used to load the record fixtures that seed the mock record store
+     */
+    public setRecordFixturesProvider(provider: () => RecordFixture[]): void {
+        this.recordFixturesProvider = provider;
+    }
+
+    /**
+     * Set resolver used to map file paths and module URLs in stack traces to workspace source files
+     */
+    public setSourcePathResolver(resolver: (filePath: string) => string | null): void {
+        this.sourcePathResolver = resolver;
+    }
+
+    /**
+     * Get the value saved in workspace state for a component
+     *
+     * @param key - Workspace state key holding a map of component name to value
+     */
+    private getComponentState<T>(key: string, componentName: string): T | undefined {
+        return this.context.workspaceState.get<Record<string, T>>(key, {})[componentName];
+    }
+
+    /**
+     * Save a value for a component in workspace state, keeping the values of other components
+     *
+     * @param key - Workspace state key holding a map of component name to value
+     */
+    private async saveComponentState<T>(key: string, componentName: string, value: T): Promise<void> {
+        const allValues = this.context.workspaceState.get<Record<string, T>>(key, {});
+        await this.context.workspaceState.update(key, { ...allValues, [componentName]: value });
+    }
+
+    /**
+     * Get the property values saved for a component
+     */
+    public getPropertyValues(componentName: string): PropertyValues {
+        return this.getComponentState<PropertyValues>(WORKSPACE_STATE_KEYS.PROPERTY_VALUES, componentName) || {};
+    }
+
+    /**
+     * Persist the property values edited for a component
+     */
+    private async savePropertyValues(componentName: string, values: PropertyValues): Promise<void> {
+        await this.saveComponentState(WORKSPACE_STATE_KEYS.PROPERTY_VALUES, componentName, values);
+    }
+
+    /**
+     * Get the name of the scenario last selected for a component
+     */
+    private getActiveScenario(componentName: string): string | null {
+        return this.getComponentState<string | null>(WORKSPACE_STATE_KEYS.ACTIVE_SCENARIOS, componentName) || null;
+    }
+
+    /**
+     * Persist the scenario selected for a component
+     */
+    private async saveActiveScenario(componentName: string, scenarioName: string | null): Promise<void> {
+        await this.saveComponentState(WORKSPACE_STATE_KEYS.ACTIVE_SCENARIOS, componentName, scenarioName);
+    }
+
+    /**
+     * Get the record page context (recordId / objectApiName) simulated for a component
+     */
+    private getRecordContext(componentName: string): RecordContext {
+        return this.getComponentState<RecordContext>(WORKSPACE_STATE_KEYS.RECORD_CONTEXTS, componentName) || {};
+    }
+
+    /**
+     * Persist the record page context simulated for a component
+     */
+    private async saveRecordContext(componentName: string, recordContext: RecordContext): Promise<void> {
+        await this.saveComponentState(WORKSPACE_STATE_KEYS.RECORD_CONTEXTS, componentName, recordContext);
+    }
+
+    /**
+     * Reload the scenarios of the current component and re-render it in the preview
+     */
+    public reloadScenarios(): void {
+        if (this.currentComponentName) {
+            this.sendComponentState(this.currentComponentName, true);
+        }
+    }
+
+    /**
+     * Re-read the public properties of the current component and send them to the preview
+     */
+    public refreshComponentProperties(): void {
+        if (this.currentComponentName) {
+            this.sendComponentState(this.currentComponentName);
+        }
+    }
+
+    /**
+     * Send the editable state (properties, saved values and scenarios) of a component to the preview
+     */
+    private sendComponentState(componentName: string | null, rerender: boolean = false): void {
+        if (!this.previewPanel || !componentName) {
+            return;
+        }
+
+        const properties = this.propertiesProvider ? this.propertiesProvider(componentName) : [];
+        const scenarios = this.scenariosProvider ? this.scenariosProvider(componentName) : [];
+        const activeScenario = this.getActiveScenario(componentName);
+
+        this.sendMessage({
+            type: MESSAGE_TYPES.UPDATE_COMPONENT_STATE,
+            componentName: componentName,
+            properties: properties,
+            propertyValues: this.getPropertyValues(componentName),
+            scenarios: scenarios,
+            activeScenario: scenarios.some(scenario => scenario.name === activeScenario) ? activeScenario : null,
+            recordContext: this.getRecordContext(componentName),
+            rerender: rerender
+        });
+    }
+
+    /**
+     * Answer an Apex call relayed from the preview runtime
+     */
+    private async handleApexRequest(message: ApexRequestMessage): Promise<void> {
+        let response: ApexMockResponse;
+
+        try {
+            response = this.apexMockProvider
+                ? await this.apexMockProvider(message.methodName)
+                : { error: 'Apex mocking is not available' };
+        } catch (error) {
+            logger.error('Apex mock request failed:', error);
+            response = { error: error instanceof Error ? error.message : String(error) };
+        }
+
+        this.sendMessage({
+            type: MESSAGE_TYPES.APEX_RESPONSE,
+            requestId: message.requestId,
+            response: response
+        });
+    }
+
+    /**
+     * Seed the preview's mock record store with freshly loaded fixtures, discarding local changes
+     *
+     * @returns Number of fixture records sent, or null if the preview is not open
+     */
+    public seedRecordStore(): number | null {
+        if (!this.previewPanel) {
+            return null;
+        }
+
+        const records = this.recordFixturesProvider ? this.recordFixturesProvider() : [];
+        this.sendMessage({
+            type: MESSAGE_TYPES.SEED_RECORDS,
+            records: records
+        });
+        return records.length;
+    }
+
+    /**
+     * Request the current contents of the preview's mock record store
+     *
+     * @returns Records in the store, or null if the preview did not answer
+     */
+    public requestRecordStoreSnapshot(): Promise<unknown[] | null> {
+        if (!this.previewPanel) {
+            return Promise.resolve(null);
+        }
+
+        const requestId = this.nextRecordStoreRequestId++;
+        return new Promise(resolve => {
+            this.pendingRecordStoreRequests.set(requestId, resolve);
+            this.sendMessage({
+                type: MESSAGE_TYPES.REQUEST_RECORD_STORE,
+                requestId: requestId
+            });
+
+            setTimeout(() => {
+                if (this.pendingRecordStoreRequests.delete(requestId)) {
+                    resolve(null);
+                }
+            }, RECORD_STORE_REQUEST_TIMEOUT);
+        });
+    }
+
+    /**
+     * Resolve a pending record store request with the snapshot sent by the preview
+     */
+    private handleRecordStoreSnapshot(message: RecordStoreSnapshotMessage): void {
+        const resolve = this.pendingRecordStoreRequests.get(message.requestId);
+        if (resolve) {
+            this.pendingRecordStoreRequests.delete(message.requestId);
+            resolve(message.records);
+        }
+    }
+
+    /**
+     * Save the events captured by the events inspector to a JSON file chosen by the user
+     */
+    private async exportEvents(message: ExportEventsMessage): Promise<void> {
+        const events = message.events || [];
+        if (events.length === 0) {
+            vscode.window.showInformationMessage('LWC Preview: No events to export');
+            return;
+        }
+
+        // Offer the previewed project's folder, not the first folder of a multi-root workspace
+        const workspaceRoot = this.getCurrentProject()?.workspaceRoot;
+        const fileName = `${message.componentName || 'preview'}-events.json`;
+        const targetUri = await vscode.window.showSaveDialog({
+            defaultUri: workspaceRoot ? vscode.Uri.joinPath(vscode.Uri.file(workspaceRoot), fileName) : undefined,
+            filters: { json: ['json'] },
+            saveLabel: 'Export Events'
+        });
+        if (!targetUri) {
+            return;
+        }
+
+        try {
+            const content = JSON.stringify(events.map(event => ({
+                ...event,
+                time: new Date(event.timestamp).toISOString()
+            })), null, 2);
+            await vscode.workspace.fs.writeFile(targetUri, Buffer.from(content, 'utf8'));
+            vscode.window.showInformationMessage(`LWC Preview: Exported ${events.length} events to ${targetUri.fsPath}`);
+        } catch (error) {
+            logger.error('Failed to export events:', error);
+            vscode.window.showErrorMessage(
+                `LWC Preview: Failed to export events: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+    }
+
+    /**
+     * Open the workspace source file behind a stack trace location clicked in the preview
+     */
+    private async openSourceLocation(message: OpenSourceLocationMessage): Promise<void> {
+        const sourcePath = this.sourcePathResolver ? this.sourcePathResolver(message.filePath) : null;
+        if (!sourcePath) {
+            vscode.window.showWarningMessage(`LWC Preview: Could not find the workspace source of ${message.filePath}`);
+            return;
+        }
+
+        const line = Math.max((message.line || 1) - 1, 0);
+        const column = Math.max(message.column || 0, 0);
+        const position = new vscode.Position(line, column);
+
+        try {
+            await vscode.window.showTextDocument(vscode.Uri.file(sourcePath), {
+                viewColumn: vscode.ViewColumn.One,
+                selection: new vscode.Range(position, position)
+            });
+        } catch (error) {
+            logger.error(`Failed to open ${sourcePath}:`, error);
+            vscode.window.showErrorMessage(`LWC Preview: Failed to open ${sourcePath}`);
+        }
+    }
+
     /**
      * Close the preview panel
      */
@@ -98,6 +417,7 @@ export class PreviewPanelManager {
             this.previewPanel.dispose();
             this.previewPanel = null;
             this.currentComponentName = null;
+            this.currentProject = null;
         }
     }
 
@@ -106,8 +426,11 @@ export class PreviewPanelManager {
      */
     public async show(
         componentInfo: ComponentInfo | null,
-        serverReady: boolean
+        serverReady: boolean,
+        project: PreviewProject
     ): Promise<void> {
+        this.currentProject = project;
+
         if (this.previewPanel) {
             this.previewPanel.reveal(vscode.ViewColumn.Two);
             if (serverReady) {
@@ -134,6 +457,29 @@ export class PreviewPanelManager {
                     await this.toggleAutoOpen(message.enabled);
                 } else if (message.type === MESSAGE_TYPES.FORCE_RELOAD) {
                     await this.triggerForceReload();
+                } else if (message.type === MESSAGE_TYPES.SHOW_SERVER_OUTPUT) {
+                    await vscode.commands.executeCommand(COMMAND_SHOW_SERVER_OUTPUT);
+                } else if (message.type === MESSAGE_TYPES.PREVIEW_READY) {
+                    this.seedRecordStore();
+                    this.sendComponentState(this.currentComponentName);
+                } else if (message.type === MESSAGE_TYPES.SET_PROPERTY_VALUES) {
+                    await this.savePropertyValues(message.componentName, message.values || {});
+                } else if (message.type === MESSAGE_TYPES.SELECT_SCENARIO) {
+                    await this.saveActiveScenario(message.componentName, message.scenarioName || null);
+                } else if (message.type === MESSAGE_TYPES.SET_RECORD_CONTEXT) {
+                    await this.saveRecordContext(message.componentName, message.recordContext || {});
+                } else if (message.type === MESSAGE_TYPES.APEX_REQUEST) {
+                    await this.handleApexRequest(message);
+                } else if (message.type === MESSAGE_TYPES.RECORD_STORE_SNAPSHOT) {
+                    this.handleRecordStoreSnapshot(message);
+                } else if (message.type === MESSAGE_TYPES.OPEN_SOURCE_LOCATION) {
+                    await this.openSourceLocation(message);
+                } else if (message.type === MESSAGE_TYPES.EXPORT_EVENTS) {
+                    await this.exportEvents(message);
+                } else if (message.type === MESSAGE_TYPES.CONSOLE_MESSAGE) {
+                    if (this.consoleMessageCallback) {
+                        this.consoleMessageCallback(message);
+                    }
                 }
             },
             null,
@@ -144,6 +490,7 @@ export class PreviewPanelManager {
             () => {
                 this.previewPanel = null;
                 this.currentComponentName = null;
+                this.currentProject = null;
             },
             null,
             this.context.subscriptions
@@ -169,11 +516,12 @@ export class PreviewPanelManager {
      * Show preview content
      */
     private showPreviewContent(componentInfo: ComponentInfo | null): void {
-        if (this.previewPanel) {
+        if (this.previewPanel && this.currentProject) {
             this.previewPanel.webview.html = getPreviewHtml(
                 componentInfo?.componentName || '',
-                LWR_SERVER_PORT,
-                this.autoOpenEnabled
+                this.currentProject.port,
+                this.autoOpenEnabled,
+                this.currentProject.name
             );
         }
     }
@@ -188,6 +536,7 @@ export class PreviewPanelManager {
                 componentName: componentName
             });
             this.hasActiveError = false;
+            this.sendComponentState(componentName);
         }
     }
 
@@ -230,6 +579,21 @@ export class PreviewPanelManager {
         }
     }
 
+    /**
+     * Tell the preview about the state of its server, so it can cover the frame while the server
+     * is reconnecting and reload the component once it is back
+     */
+    public updateServerState(state: ServerState, attempt: number = 0): void {
+        if (this.previewPanel) {
+            this.sendMessage({
+                type: MESSAGE_TYPES.UPDATE_SERVER_STATE,
+                state,
+                attempt,
+                maxAttempts: SERVER_RECOVERY_MAX_ATTEMPTS
+            });
+        }
+    }
+
     /**
      * Send message to webview
      */
@@ -239,6 +603,19 @@ export class PreviewPanelManager {
         }
     }
 
+    /**
+     * Reload the preview after the server of the previewed project moved to another port
+     */
+    public updateProjectPort(port: number): void {
+        if (!this.previewPanel || !this.currentProject || this.currentProject.port === port) {
+            return;
+        }
+
+        this.currentProject = { ...this.currentProject, port };
+        const componentName = this.currentComponentName;
+        this.showPreviewContent(componentName ? { componentName, modulePath: `c/${componentName}` } : null);
+    }
+
     /**
      * Update preview when server becomes ready
      */
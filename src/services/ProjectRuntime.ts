@@ -0,0 +1,308 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+    LWR_MODULES_PATH,
+    SERVER_START_TIMEOUT,
+    SERVER_STOP_TIMEOUT,
+    WORKSPACE_STATE_KEYS
+} from '../constants';
+import { getPublicProperties } from '../utils/componentProperties';
+import { ProjectSetupError } from '../utils/errorHandler';
+import { waitForServerReady } from '../utils/serverHealth';
+import { cleanupStaleServer, getProcessStartTime } from '../utils/serverProcess';
+import { ComponentProperty, PreviewProject, ServerProcessRecord, ServerState } from '../types';
+import { StatusBarManager } from './StatusBarManager';
+import { ProjectSetupService } from './ProjectSetupService';
+import { DependencyManager } from './DependencyManager';
+import { ServerManager } from './ServerManager';
+import { PreviewPanelManager } from './PreviewPanelManager';
+import { FileWatcherService } from './FileWatcherService';
+import { LiveBufferService } from './LiveBufferService';
+import { DiagnosticsManager } from './DiagnosticsManager';
+import { ComponentSourceService } from './ComponentSourceService';
+import { ComponentDependencyGraph } from './ComponentDependencyGraph';
+import { logger } from '../utils/logger';
+
+/**
+ * The preview runtime of one SFDX workspace folder: its own LWR project copy,
+ * server, file watchers, diagnostics and status bar item
+ */
+export class ProjectRuntime {
+    public readonly statusBarManager: StatusBarManager;
+    public readonly componentSourceService: ComponentSourceService;
+    public readonly dependencyGraph: ComponentDependencyGraph;
+    private dependencyManager: DependencyManager | null = null;
+    private serverManager: ServerManager | null = null;
+    private fileWatcherService: FileWatcherService | null = null;
+    private liveBufferService: LiveBufferService | null = null;
+    private diagnosticsManager: DiagnosticsManager | null = null;
+    private lwrProjectRoot: string | null = null;
+    private previewedComponentName: string | null = null;
+    private serverPort: number | null = null;
+    private readonly serverStateEmitter = new vscode.EventEmitter<ServerState>();
+
+    /**
+     * Fired whenever the state of the project's server changes
+     */
+    public readonly onDidChangeServerState = this.serverStateEmitter.event;
+
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        public readonly workspaceFolder: vscode.WorkspaceFolder,
+        private readonly projectSetupService: ProjectSetupService,
+        private readonly previewPanelManager: PreviewPanelManager
+    ) {
+        this.statusBarManager = new StatusBarManager(context, workspaceFolder.name);
+        this.componentSourceService = new ComponentSourceService(this.workspaceRoot);
+        this.dependencyGraph = new ComponentDependencyGraph(this.workspaceRoot, this.componentSourceService);
+    }
+
+    /**
+     * Root of the SFDX workspace folder
+     */
+    public get workspaceRoot(): string {
+        return this.workspaceFolder.uri.fsPath;
+    }
+
+    /**
+     * Port of the project's server, once the runtime has been started
+     */
+    public get port(): number | null {
+        return this.serverPort;
+    }
+
+    /**
+     * Check if the project's server is ready
+     */
+    public get isReady(): boolean {
+        return this.serverManager?.isReady ?? false;
+    }
+
+    /**
+     * Wait until the project's server is ready, including while the runtime is still being set up
+     *
+     * @param timeout - Milliseconds to wait before giving up
+     * @throws ServerStartError if the server stops or fails, or is not ready in time
+     */
+    public whenReady(timeout: number): Promise<void> {
+        return waitForServerReady(this.onDidChangeServerState, this.serverManager?.currentState ?? 'stopped', timeout);
+    }
+
+    /**
+     * Get the project as shown by the preview panel
+     */
+    public getPreviewProject(): PreviewProject {
+        return {
+            name: this.workspaceFolder.name,
+            workspaceRoot: this.workspaceRoot,
+            port: this.serverPort ?? 0
+        };
+    }
+
+    /**
+     * Get the server manager, once the runtime has been started
+     */
+    public getServerManager(): ServerManager | null {
+        return this.serverManager;
+    }
+
+    /**
+     * Check if the preview panel currently shows this project
+     */
+    private isPreviewed(): boolean {
+        return this.previewPanelManager.getCurrentProject()?.workspaceRoot === this.workspaceRoot;
+    }
+
+    /**
+     * Stop a server of this project that a previous session left running, so it frees its port
+     * Runs before a port is picked for the new server
+     */
+    public async cleanupStaleServer(): Promise<void> {
+        const record = this.getServerProcessRecords()[this.workspaceRoot];
+        if (!record) {
+            return;
+        }
+
+        try {
+            if (await cleanupStaleServer(record, SERVER_STOP_TIMEOUT)) {
+                logger.info(`Stopped a stale server of ${this.workspaceFolder.name}, port ${record.port} is free again`);
+            }
+        } catch (error) {
+            logger.error(`Failed to stop the stale server of ${this.workspaceFolder.name}:`, error);
+        }
+
+        await this.saveServerProcess(null);
+    }
+
+    /**
+     * Get the recorded server processes of all projects of the workspace
+     */
+    private getServerProcessRecords(): Record<string, ServerProcessRecord> {
+        return this.context.workspaceState.get<Record<string, ServerProcessRecord>>(WORKSPACE_STATE_KEYS.SERVER_PROCESSES, {});
+    }
+
+    /**
+     * Record the running server process of this project, or forget it once it has exited
+     */
+    private async saveServerProcess(pid: number | null): Promise<void> {
+        const startTime = pid ? await getProcessStartTime(pid) : null;
+        if (pid && !startTime) {
+            logger.warn(`Could not read the start time of server process ${pid}, it is not recorded for cleanup`);
+        }
+
+        const { [this.workspaceRoot]: _previous, ...records } = this.getServerProcessRecords();
+        await this.context.workspaceState.update(
+            WORKSPACE_STATE_KEYS.SERVER_PROCESSES,
+            pid && startTime && this.serverPort
+                ? { ...records, [this.workspaceRoot]: { pid, port: this.serverPort, startTime } }
+                : records
+        );
+    }
+
+    /**
+     * Set up the LWR project, start its server and sync the components
+     *
+     * @param allocatePort - Picks a free port for the server, from findAvailablePort; called again on every restart
+     */
+    public async start(allocatePort: () => Promise<number>): Promise<void> {
+        this.statusBarManager.showLoading();
+        const port = await allocatePort();
+        this.serverPort = port;
+
+        this.lwrProjectRoot = await this.projectSetupService.setupLwrBaseProject(this.workspaceRoot);
+
+        this.dependencyManager = new DependencyManager(
+            this.lwrProjectRoot,
+            this.workspaceFolder.name,
+            this.statusBarManager
+        );
+
+        this.serverManager = new ServerManager(
+            this.lwrProjectRoot,
+            this.workspaceRoot,
+            this.workspaceFolder.name,
+            port,
+            this.statusBarManager
+        );
+        const serverManager = this.serverManager;
+        serverManager.setProcessCallback(pid => this.saveServerProcess(pid));
+        serverManager.setPortAllocator(async () => {
+            this.serverPort = await allocatePort();
+            return this.serverPort;
+        });
+        serverManager.onDidChangeState(state => {
+            this.serverStateEmitter.fire(state);
+            if (this.isPreviewed()) {
+                this.previewPanelManager.updateServerState(state, serverManager.currentRecoveryAttempt);
+                if (state === 'ready') {
+                    this.previewPanelManager.updateProjectPort(serverManager.currentPort);
+                }
+            }
+        });
+
+        this.componentSourceService.refresh();
+
+        this.diagnosticsManager = new DiagnosticsManager(this.context, this.componentSourceService);
+        this.diagnosticsManager.initialize();
+
+        this.fileWatcherService = new FileWatcherService(
+            this.context,
+            this.workspaceRoot,
+            this.lwrProjectRoot,
+            this.statusBarManager,
+            this.previewPanelManager,
+            this.diagnosticsManager,
+            this.componentSourceService,
+            this.dependencyGraph
+        );
+
+        const diagnosticsManager = this.diagnosticsManager;
+        this.serverManager.setErrorCallback((errorInfo) => {
+            if (this.isPreviewed()) {
+                this.previewPanelManager.sendLwrError(errorInfo);
+            }
+            diagnosticsManager.publishLwrError(errorInfo);
+        });
+
+        this.fileWatcherService.setup();
+        await this.fileWatcherService.setPreviewedComponent(this.previewedComponentName);
+
+        await this.dependencyManager.ensureInstalled();
+        this.serverManager.start();
+        try {
+            await this.serverManager.whenReady(SERVER_START_TIMEOUT);
+        } catch (error) {
+            throw new ProjectSetupError(
+                `Server failed to start: ${error instanceof Error ? error.message : String(error)}`,
+                error instanceof Error ? error : undefined
+            );
+        }
+        await this.fileWatcherService.initialSync();
+
+        this.liveBufferService = new LiveBufferService(
+            this.workspaceRoot,
+            this.lwrProjectRoot,
+            this.previewPanelManager,
+            this.diagnosticsManager,
+            this.componentSourceService
+        );
+        this.liveBufferService.initialize();
+
+        if (this.serverManager.isReady) {
+            this.statusBarManager.showReady(port);
+        }
+    }
+
+    /**
+     * Track the component shown in the preview, so lazy sync can sync it and the components it uses
+     */
+    public async setPreviewedComponent(componentName: string | null): Promise<void> {
+        this.previewedComponentName = componentName;
+        if (this.fileWatcherService) {
+            await this.fileWatcherService.setPreviewedComponent(componentName);
+        }
+    }
+
+    /**
+     * Discover the public properties of a synced component
+     */
+    public getPublicProperties(componentName: string): ComponentProperty[] {
+        if (!this.lwrProjectRoot) {
+            return [];
+        }
+
+        return getPublicProperties(path.join(this.lwrProjectRoot, LWR_MODULES_PATH, componentName, `${componentName}.js`));
+    }
+
+    /**
+     * Stop the server and dispose watchers and status bar
+     * Synced components are kept so the next startup only has to reconcile the changes
+     * Resolves once the server process tree has exited
+     */
+    public async dispose(): Promise<void> {
+        const serverStopped = this.serverManager ? this.serverManager.dispose() : Promise.resolve();
+        this.serverStateEmitter.dispose();
+
+        if (this.liveBufferService) {
+            this.liveBufferService.dispose();
+        }
+
+        if (this.fileWatcherService) {
+            this.fileWatcherService.dispose();
+        }
+
+        if (this.diagnosticsManager) {
+            this.diagnosticsManager.dispose();
+        }
+
+        this.statusBarManager.dispose();
+
+        try {
+            await serverStopped;
+        } catch (error) {
+            logger.error(`Failed to stop the server of ${this.workspaceFolder.name}:`, error);
+            return;
+        }
+        logger.info(`Stopped preview runtime for ${this.workspaceFolder.name}`);
+    }
+}
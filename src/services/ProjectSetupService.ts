@@ -1,9 +1,11 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { createHash } from 'crypto';
 import AdmZip from 'adm-zip';
-import { LWR_BASE_PROJECT_FOLDER, LOG_PREFIX } from '../constants';
+import { LWR_BASE_PROJECT_FOLDER } from '../constants';
 import { copyDirectoryOptimized } from '../utils/fileSystem';
+import { logger } from '../utils/logger';
 
 /**
  * Handles setup of the LWR base project
@@ -13,8 +15,11 @@ export class ProjectSetupService {
 
     /**
      * Setup the LWR base project in global storage
+     * Every SFDX workspace folder gets its own copy, so each can run its own server
+     *
+     * @param workspaceRoot - Root of the SFDX workspace folder the project is for
      */
-    public async setupLwrBaseProject(): Promise<string> {
+    public async setupLwrBaseProject(workspaceRoot: string): Promise<string> {
         const extensionPath = this.context.extensionPath;
         const globalStoragePath = this.context.globalStorageUri.fsPath;
 
@@ -22,12 +27,13 @@ export class ProjectSetupService {
         this.ensureDirectory(globalStoragePath);
 
         const version = this.getExtensionVersion(extensionPath);
-        const versionedFolderName = `${LWR_BASE_PROJECT_FOLDER}-${version}`;
+        const workspaceKey = createHash('sha1').update(workspaceRoot).digest('hex').slice(0, 8);
+        const versionedFolderName = `${LWR_BASE_PROJECT_FOLDER}-${version}-${workspaceKey}`;
         const destLwrBasePath = path.join(globalStoragePath, versionedFolderName);
 
         // If we already have the extracted folder, use it
         if (fs.existsSync(destLwrBasePath)) {
-            console.log(`${LOG_PREFIX} Using existing ${versionedFolderName} at: ${destLwrBasePath}`);
+            logger.debug(`Using existing ${versionedFolderName} at: ${destLwrBasePath}`);
             return destLwrBasePath;
         }
 
@@ -47,8 +53,8 @@ export class ProjectSetupService {
             );
         }
 
-        console.log(`${LOG_PREFIX} LWR base project (v${version}) ready at: ${destLwrBasePath}`);
-        console.log(`${LOG_PREFIX} Global storage path: ${globalStoragePath}`);
+        logger.info(`LWR base project (v${version}) ready at: ${destLwrBasePath}`);
+        logger.debug(`Global storage path: ${globalStoragePath}`);
         return destLwrBasePath;
     }
 
@@ -70,7 +76,7 @@ export class ProjectSetupService {
             const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
             return packageJson.version || '0.0.0';
         } catch (error) {
-            console.error(`${LOG_PREFIX} Failed to read package.json version:`, error);
+            logger.error('Failed to read package.json version:', error);
             return '0.0.0';
         }
     }
@@ -84,11 +90,12 @@ export class ProjectSetupService {
         destLwrBasePath: string,
         versionedFolderName: string
     ): Promise<void> {
-        console.log(`${LOG_PREFIX} Extracting ${versionedFolderName} from zip: ${sourceZipPath}`);
+        logger.info(`Extracting ${versionedFolderName} from zip: ${sourceZipPath}`);
 
         try {
             const zip = new AdmZip(sourceZipPath);
-            const tempExtractPath = path.join(globalStoragePath, 'temp-extract');
+            // Projects of several workspace folders may be extracted at the same time
+            const tempExtractPath = path.join(globalStoragePath, `temp-extract-${versionedFolderName}`);
             zip.extractAllTo(tempExtractPath, true);
 
             const extractedPath = path.join(tempExtractPath, LWR_BASE_PROJECT_FOLDER);
@@ -104,9 +111,9 @@ export class ProjectSetupService {
                 fs.rmdirSync(tempExtractPath, { recursive: true });
             }
 
-            console.log(`${LOG_PREFIX} Successfully extracted ${versionedFolderName}`);
+            logger.info(`Successfully extracted ${versionedFolderName}`);
         } catch (error) {
-            console.error(`${LOG_PREFIX} Failed to extract zip, falling back to copy:`, error);
+            logger.error('Failed to extract zip, falling back to copy:', error);
 
             const sourceLwrBasePath = path.join(
                 this.context.extensionPath,
@@ -129,9 +136,9 @@ export class ProjectSetupService {
         destPath: string,
         versionedFolderName: string
     ): Promise<void> {
-        console.log(`${LOG_PREFIX} Copying ${versionedFolderName} from ${sourcePath} to ${destPath}`);
+        logger.info(`Copying ${versionedFolderName} from ${sourcePath} to ${destPath}`);
         await copyDirectoryOptimized(sourcePath, destPath);
-        console.log(`${LOG_PREFIX} Successfully copied ${versionedFolderName}`);
+        logger.info(`Successfully copied ${versionedFolderName}`);
     }
 }
 
@@ -1,21 +1,57 @@
-import * as child_process from 'child_process';
+import * as childProcess from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
 import * as vscode from 'vscode';
-import { LWR_SERVER_PORT, LOG_PREFIX } from '../constants';
+import {
+    NAMESPACE_ENV_VAR,
+    SERVER_HEALTH_CHECK_INTERVAL,
+    SERVER_PORT_RELEASE_TIMEOUT,
+    SERVER_RECOVERY_BASE_DELAY,
+    SERVER_RECOVERY_MAX_ATTEMPTS,
+    SERVER_RECOVERY_RESET_TIME,
+    SERVER_RESTART_TIMEOUT,
+    SERVER_SETTINGS_PATH,
+    SERVER_STOP_TIMEOUT,
+    WORKSPACE_ROOT_ENV_VAR
+} from '../constants';
 import { StatusBarManager } from './StatusBarManager';
-import { parseLwrError } from '../utils/errorHandler';
-import { LwrErrorInfo } from '../types';
+import { parseLwrError, ServerStartError } from '../utils/errorHandler';
+import { findCustomLabelFiles, getNamespace } from '../utils/sfdxProject';
+import { isServerHealthy, waitForServerReady } from '../utils/serverHealth';
+import { isPortAvailable, waitForPortRelease } from '../utils/serverPort';
+import { terminateProcessTree } from '../utils/serverProcess';
+import { LwrErrorInfo, ServerSettings, ServerState } from '../types';
+import { logger } from '../utils/logger';
 
 /**
  * Manages the LWR server lifecycle
+ * Unexpected exits are recovered by restarting the server with exponential backoff,
+ * until SERVER_RECOVERY_MAX_ATTEMPTS restarts in a row have failed
  */
 export class ServerManager {
-    private lwrServerProcess: child_process.ChildProcess | null = null;
-    private _serverReady: boolean = false;
+    private lwrServerProcess: childProcess.ChildProcess | null = null;
+    private state: ServerState = 'stopped';
+    private healthCheckTimer: NodeJS.Timeout | null = null;
+    private isCheckingHealth: boolean = false;
+    private recoveryTimer: NodeJS.Timeout | null = null;
+    private recoveryAttempt: number = 0;
+    private readySince: number | null = null;
     private errorDebounceTimer: NodeJS.Timeout | null = null;
     private errorCallback: ((errorInfo: LwrErrorInfo) => void) | null = null;
+    private processCallback: ((pid: number | null) => void) | null = null;
+    private portAllocator: (() => Promise<number>) | null = null;
+    private readonly stateEmitter = new vscode.EventEmitter<ServerState>();
+
+    /**
+     * Fired whenever the server state changes
+     */
+    public readonly onDidChangeState = this.stateEmitter.event;
 
     constructor(
         private readonly projectRoot: string,
+        private readonly workspaceRoot: string,
+        private readonly projectName: string,
+        private port: number,
         private readonly statusBarManager: StatusBarManager
     ) { }
 
@@ -23,7 +59,50 @@ export class ServerManager {
      * Check if server is ready
      */
     public get isReady(): boolean {
-        return this._serverReady;
+        return this.state === 'ready';
+    }
+
+    /**
+     * Get the current server state
+     */
+    public get currentState(): ServerState {
+        return this.state;
+    }
+
+    /**
+     * Get the port the server listens on
+     */
+    public get currentPort(): number {
+        return this.port;
+    }
+
+    /**
+     * Get the current restart attempt while the server is reconnecting
+     */
+    public get currentRecoveryAttempt(): number {
+        return this.recoveryAttempt;
+    }
+
+    /**
+     * Wait until the server answers health checks
+     *
+     * @param timeout - Milliseconds to wait before giving up
+     * @throws ServerStartError if the server stops or fails, or is not ready in time
+     */
+    public whenReady(timeout: number): Promise<void> {
+        return waitForServerReady(this.onDidChangeState, this.state, timeout);
+    }
+
+    /**
+     * Update the server state and notify listeners
+     */
+    private setState(state: ServerState): void {
+        if (this.state === state) {
+            return;
+        }
+
+        this.state = state;
+        this.stateEmitter.fire(state);
     }
 
     /**
@@ -33,60 +112,197 @@ export class ServerManager {
         this.errorCallback = callback;
     }
 
+    /**
+     * Set callback notified with the process id of every spawned server, and with null once it is gone
+     */
+    public setProcessCallback(callback: (pid: number | null) => void): void {
+        this.processCallback = callback;
+    }
+
+    /**
+     * Set callback that picks a free port for the server
+     * Called before every restart, so changes to lwc-preview.port apply and a taken port is avoided
+     */
+    public setPortAllocator(allocator: () => Promise<number>): void {
+        this.portAllocator = allocator;
+    }
+
+    /**
+     * Pick the port for the next server start, keeping the current one when no allocator is set
+     */
+    private async allocatePort(): Promise<void> {
+        if (!this.portAllocator) {
+            return;
+        }
+
+        const port = await this.portAllocator();
+        if (port !== this.port) {
+            logger.info(`Server of ${this.projectName} moves from port ${this.port} to port ${port}`);
+            this.port = port;
+        }
+    }
+
     /**
      * Start the LWR server
      */
     public start(): void {
         if (this.lwrServerProcess) return;
 
-        this.lwrServerProcess = child_process.spawn('npm', ['start', '--', '--port', String(LWR_SERVER_PORT)], {
+        this.clearRecovery();
+        this.setState('starting');
+        this.spawnServer();
+    }
+
+    /**
+     * Spawn the server process and begin probing it
+     */
+    private spawnServer(): void {
+        this.writeServerSettings();
+        this.lwrServerProcess = childProcess.spawn('npm', ['start', '--', '--port', String(this.port)], {
             cwd: this.projectRoot,
             shell: true,
-            stdio: ['ignore', 'pipe', 'pipe']
+            stdio: ['ignore', 'pipe', 'pipe'],
+            // Lead a process group of its own, so stop() can terminate npm and the LWR server along with the shell
+            detached: process.platform !== 'win32',
+            // The module provider reads labels and settings from the workspace,
+            // and serves `<namespace>/*` specifiers as aliases of the synced `c/*` modules
+            env: {
+                ...process.env,
+                [WORKSPACE_ROOT_ENV_VAR]: this.workspaceRoot,
+                [NAMESPACE_ENV_VAR]: getNamespace(this.workspaceRoot) || ''
+            }
         });
 
         this.setupServerListeners();
+        this.scheduleHealthCheck(SERVER_HEALTH_CHECK_INTERVAL);
+
+        if (this.lwrServerProcess.pid) {
+            this.reportProcess(this.lwrServerProcess.pid);
+        }
+    }
+
+    /**
+     * Write the workspace data the module provider cannot resolve itself, e.g. the label files of every package directory
+     * Rewritten on every spawn, so a Force Reload picks up changed package directories
+     */
+    private writeServerSettings(): void {
+        const settings: ServerSettings = {
+            labelFiles: findCustomLabelFiles(this.workspaceRoot)
+        };
+        const settingsPath = path.join(this.projectRoot, SERVER_SETTINGS_PATH);
+
+        try {
+            fs.mkdirSync(path.dirname(settingsPath), { recursive: true });
+            fs.writeFileSync(settingsPath, JSON.stringify(settings, null, 2));
+        } catch (error) {
+            logger.error(`Failed to write ${settingsPath}:`, error);
+        }
+    }
+
+    /**
+     * Probe the server again after a delay, until it is ready or stopped
+     */
+    private scheduleHealthCheck(delay: number): void {
+        if (this.healthCheckTimer) {
+            clearTimeout(this.healthCheckTimer);
+        }
+
+        this.healthCheckTimer = setTimeout(() => {
+            this.healthCheckTimer = null;
+            this.checkHealth();
+        }, delay);
+    }
+
+    /**
+     * Probe the server over HTTP and mark it ready once it serves the preview
+     */
+    private async checkHealth(): Promise<void> {
+        if (!this.isStarting() || this.isCheckingHealth) {
+            return;
+        }
+
+        this.isCheckingHealth = true;
+        const serverProcess = this.lwrServerProcess;
+        let isHealthy = false;
+        try {
+            isHealthy = await isServerHealthy(this.port);
+        } finally {
+            this.isCheckingHealth = false;
+        }
+
+        // The server may have been stopped or restarted while the probe was running
+        if (!this.isStarting() || serverProcess !== this.lwrServerProcess) {
+            return;
+        }
+
+        if (isHealthy) {
+            this.readySince = Date.now();
+            this.setState('ready');
+            this.statusBarManager.showReady(this.port);
+            logger.info(`Server ready at http://localhost:${this.port}`);
+        } else {
+            this.scheduleHealthCheck(SERVER_HEALTH_CHECK_INTERVAL);
+        }
+    }
+
+    /**
+     * Check if the server has been spawned and is waiting for its first successful health check
+     */
+    private isStarting(): boolean {
+        return this.state === 'starting' || this.state === 'reconnecting';
+    }
+
+    /**
+     * Notify the process callback about a spawned or exited server process
+     */
+    private reportProcess(pid: number | null): void {
+        if (this.processCallback) {
+            this.processCallback(pid);
+        }
     }
 
     /**
      * Setup listeners for server output and errors
      */
     private setupServerListeners(): void {
-        if (!this.lwrServerProcess) return;
+        const serverProcess = this.lwrServerProcess;
+        if (!serverProcess) {
+            return;
+        }
 
-        if (this.lwrServerProcess.stdout) {
-            this.lwrServerProcess.stdout.on('data', (data: Buffer) => {
+        if (serverProcess.stdout) {
+            serverProcess.stdout.on('data', (data: Buffer) => {
                 this.handleServerOutput(data.toString());
             });
         }
 
-        if (this.lwrServerProcess.stderr) {
-            this.lwrServerProcess.stderr.on('data', (data: Buffer) => {
+        if (serverProcess.stderr) {
+            serverProcess.stderr.on('data', (data: Buffer) => {
                 this.handleServerError(data.toString());
             });
         }
 
-        this.lwrServerProcess.on('error', (error) => {
-            this.handleSpawnError(error);
+        serverProcess.on('error', (error) => {
+            if (serverProcess === this.lwrServerProcess) {
+                this.handleSpawnError(error);
+            }
         });
 
-        this.lwrServerProcess.on('close', (code: number) => {
-            this.handleServerClose(code);
+        serverProcess.on('close', async (code: number) => {
+            if (serverProcess === this.lwrServerProcess) {
+                await this.handleServerClose(code, serverProcess);
+            }
         });
     }
 
     /**
      * Handle server stdout output
+     * Output usually means the server made progress, so probe right away instead of waiting for the next check
      */
     private handleServerOutput(output: string): void {
-        if (output.includes('Application is available at:') ||
-            output.includes(`localhost:${LWR_SERVER_PORT}`) ||
-            output.includes('Server listening')) {
-            if (!this._serverReady) {
-                this._serverReady = true;
-                this.statusBarManager.showReady(LWR_SERVER_PORT);
-                console.log(`${LOG_PREFIX} Server ready at http://localhost:${LWR_SERVER_PORT}`);
-            }
+        logger.appendOutput(`server:${this.projectName}`, output, 'info');
+        if (this.isStarting() && !this.isCheckingHealth) {
+            this.scheduleHealthCheck(0);
         }
     }
 
@@ -94,6 +310,7 @@ export class ServerManager {
      * Handle server stderr output
      */
     private handleServerError(errorOutput: string): void {
+        logger.appendOutput(`server:${this.projectName}`, errorOutput, 'warn');
         this.handleLwrError(errorOutput);
     }
 
@@ -101,21 +318,92 @@ export class ServerManager {
      * Handle spawn errors
      */
     private handleSpawnError(error: Error): void {
-        console.error('[LWR Server Spawn Error]:', error);
+        logger.error(`Failed to spawn the server of ${this.projectName}:`, error);
+        this.lwrServerProcess = null;
+        this.reportProcess(null);
+        this.clearHealthCheck();
+        this.clearRecovery();
+        this.setState('failed');
         this.statusBarManager.showError(`Failed to start server: ${error.message}`);
         vscode.window.showErrorMessage(`LWC Preview: Failed to start server - ${error.message}`);
     }
 
     /**
      * Handle server process close
+     * Only called for exits that stop() did not cause, so the server is restarted
+     * once the rest of the crashed process tree has exited
      */
-    private handleServerClose(code: number): void {
+    private async handleServerClose(code: number, serverProcess: childProcess.ChildProcess): Promise<void> {
         this.lwrServerProcess = null;
-        this._serverReady = false;
+        this.clearHealthCheck();
+        logger.warn(`Server stopped unexpectedly (exit code: ${code})`);
 
-        if (code !== 0) {
-            this.statusBarManager.showWarning(`Server stopped (exit code: ${code})`);
+        // The shell may exit before the LWR server it started; make sure nothing keeps holding the port
+        if (serverProcess.pid && !(await terminateProcessTree(serverProcess.pid, SERVER_STOP_TIMEOUT))) {
+            // Keep the process record, so the next session can still stop the leftover tree
+            logger.error(`Server process ${serverProcess.pid} could not be stopped`);
+            if (!this.lwrServerProcess && this.state !== 'stopped') {
+                this.clearRecovery();
+                this.setState('failed');
+                this.statusBarManager.showError('The crashed server could not be stopped');
+            }
+            return;
         }
+
+        // A Force Reload may have started a new server, which recorded its own process, while this one shut down
+        if (this.lwrServerProcess) {
+            return;
+        }
+        this.reportProcess(null);
+
+        // stop() was called while the process tree was shutting down
+        if (this.state === 'stopped') {
+            return;
+        }
+
+        // A server that ran for a while before crashing gets the full number of attempts again
+        if (this.readySince !== null && Date.now() - this.readySince >= SERVER_RECOVERY_RESET_TIME) {
+            this.recoveryAttempt = 0;
+        }
+        this.readySince = null;
+
+        this.scheduleRecovery();
+    }
+
+    /**
+     * Restart the server after an unexpected exit, waiting longer after every failed attempt
+     */
+    private scheduleRecovery(): void {
+        if (this.recoveryAttempt >= SERVER_RECOVERY_MAX_ATTEMPTS) {
+            this.recoveryAttempt = 0;
+            this.setState('failed');
+            this.statusBarManager.showError('Server stopped repeatedly - use Force Reload to restart it');
+            vscode.window.showErrorMessage(
+                `LWC Preview: The server stopped ${SERVER_RECOVERY_MAX_ATTEMPTS} times in a row. Check the Output panel, then use Force Reload to restart it.`
+            );
+            return;
+        }
+
+        this.recoveryAttempt++;
+        const delay = SERVER_RECOVERY_BASE_DELAY * Math.pow(2, this.recoveryAttempt - 1);
+
+        this.setState('reconnecting');
+        this.statusBarManager.showLoading(
+            `Server stopped unexpectedly, restarting in ${delay / 1000}s (attempt ${this.recoveryAttempt} of ${SERVER_RECOVERY_MAX_ATTEMPTS})...`
+        );
+        logger.info(`Restarting server in ${delay}ms (attempt ${this.recoveryAttempt} of ${SERVER_RECOVERY_MAX_ATTEMPTS})`);
+
+        this.recoveryTimer = setTimeout(async () => {
+            this.recoveryTimer = null;
+            // Leftovers of the crashed server may still be shutting down; move on to a free port if they keep it taken
+            if (!(await waitForPortRelease(this.port, SERVER_PORT_RELEASE_TIMEOUT))) {
+                logger.warn(`Port ${this.port} is still in use after the server of ${this.projectName} stopped`);
+                await this.allocatePort();
+            }
+            if (this.state === 'reconnecting' && !this.lwrServerProcess) {
+                this.spawnServer();
+            }
+        }, delay);
     }
 
     /**
@@ -143,19 +431,33 @@ export class ServerManager {
     }
 
     /**
-     * Stop the LWR server
+     * Stop the LWR server and every process it spawned
+     * Resolves once the process tree has exited, or was killed after SERVER_STOP_TIMEOUT
+     *
+     * @throws ServerStartError if the process tree was still running after SIGKILL
      */
-    public stop(): void {
-        if (this.lwrServerProcess) {
-            this.lwrServerProcess.kill();
-            this.lwrServerProcess = null;
-            this._serverReady = false;
-        }
+    public async stop(): Promise<void> {
+        this.clearHealthCheck();
+        this.clearRecovery();
+
+        const serverProcess = this.lwrServerProcess;
+        this.lwrServerProcess = null;
+        this.setState('stopped');
 
         if (this.errorDebounceTimer) {
             clearTimeout(this.errorDebounceTimer);
             this.errorDebounceTimer = null;
         }
+
+        if (serverProcess?.pid) {
+            const stopped = await terminateProcessTree(serverProcess.pid, SERVER_STOP_TIMEOUT);
+            if (!stopped) {
+                // Keep the process record, so the next session can still stop the leftover tree
+                this.setState('failed');
+                throw new ServerStartError(`Server process ${serverProcess.pid} could not be stopped`);
+            }
+            this.reportProcess(null);
+        }
     }
 
     /**
@@ -164,28 +466,63 @@ export class ServerManager {
     public async restart(): Promise<void> {
         this.statusBarManager.showLoading('Restarting server...');
 
-        this.stop();
-        await new Promise(resolve => setTimeout(resolve, 2000));
+        try {
+            await this.stop();
+        } catch (error) {
+            logger.error('Server restart failed:', error);
+            this.statusBarManager.showError('The server could not be stopped');
+            throw error;
+        }
+
+        // Leftovers of the stopped server may keep the port for a moment; wait so the server can keep its port
+        await waitForPortRelease(this.port, SERVER_PORT_RELEASE_TIMEOUT);
+        await this.allocatePort();
+        if (!(await isPortAvailable(this.port))) {
+            this.statusBarManager.showError(`Port ${this.port} is still in use`);
+            throw new Error(`Port ${this.port} is still in use by another process. Stop it, then try again.`);
+        }
 
         this.statusBarManager.showLoading('Starting server...');
         this.start();
 
-        const maxWaitTime = 60000;
-        const checkInterval = 100;
-        let elapsed = 0;
+        try {
+            await this.whenReady(SERVER_RESTART_TIMEOUT);
+        } catch (error) {
+            logger.error('Server restart failed:', error);
+            this.statusBarManager.showError('Server restart failed');
+            throw new Error('Server failed to restart. Check the Output panel for details.');
+        }
+    }
 
-        while (elapsed < maxWaitTime) {
-            if (this._serverReady) {
-                this.statusBarManager.showReady(LWR_SERVER_PORT);
-                return;
-            }
+    /**
+     * Cancel a pending health check
+     */
+    private clearHealthCheck(): void {
+        if (this.healthCheckTimer) {
+            clearTimeout(this.healthCheckTimer);
+            this.healthCheckTimer = null;
+        }
+    }
 
-            await new Promise(resolve => setTimeout(resolve, checkInterval));
-            elapsed += checkInterval;
+    /**
+     * Cancel a pending restart and forget earlier crashes
+     */
+    private clearRecovery(): void {
+        if (this.recoveryTimer) {
+            clearTimeout(this.recoveryTimer);
+            this.recoveryTimer = null;
         }
+        this.recoveryAttempt = 0;
+        this.readySince = null;
+    }
 
-        this.statusBarManager.showError('Server restart failed');
-        throw new Error('Server failed to restart. Check the Output panel for details.');
+    /**
+     * Stop the server and release the state event
+     */
+    public async dispose(): Promise<void> {
+        const stopping = this.stop();
+        this.stateEmitter.dispose();
+        await stopping;
     }
 }
 
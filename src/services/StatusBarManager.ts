@@ -1,74 +1,88 @@
 import * as vscode from 'vscode';
-import { STATUS_BAR_PRIORITY } from '../constants';
+import { COMMAND_SHOW_SERVER_OUTPUT, STATUS_BAR_PRIORITY } from '../constants';
 
 /**
  * Manages the status bar item for the extension
+ * Each SFDX project gets its own item, labelled with the project name
  */
 export class StatusBarManager {
     private statusBarItem: vscode.StatusBarItem | null = null;
 
-    constructor(private readonly context: vscode.ExtensionContext) { }
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly projectName: string | null = null
+    ) { }
 
     /**
      * Initialize and show the status bar
+     * Clicking the item reveals the server log
      */
     public initialize(): void {
         this.statusBarItem = vscode.window.createStatusBarItem(
             vscode.StatusBarAlignment.Right,
             STATUS_BAR_PRIORITY
         );
+        this.statusBarItem.command = COMMAND_SHOW_SERVER_OUTPUT;
         this.context.subscriptions.push(this.statusBarItem);
         this.statusBarItem.show();
     }
 
     /**
-     * Update status bar to show loading state
+     * Show or hide the status bar item
      */
-    public showLoading(tooltip: string = 'Starting LWC Preview server...'): void {
+    public setVisible(visible: boolean): void {
         if (this.statusBarItem) {
-            this.statusBarItem.text = '$(loading~spin) LWC Preview';
-            this.statusBarItem.tooltip = tooltip;
+            if (visible) {
+                this.statusBarItem.show();
+            } else {
+                this.statusBarItem.hide();
+            }
         }
     }
 
     /**
-     * Update status bar to show syncing state
+     * Update the item text and tooltip, adding the project name when there is one
      */
-    public showSyncing(tooltip: string = 'Syncing LWC components...'): void {
+    private update(icon: string, tooltip: string): void {
         if (this.statusBarItem) {
-            this.statusBarItem.text = '$(sync~spin) LWC Preview';
-            this.statusBarItem.tooltip = tooltip;
+            this.statusBarItem.text = this.projectName ? `${icon} LWC Preview: ${this.projectName}` : `${icon} LWC Preview`;
+            this.statusBarItem.tooltip = this.projectName ? `${this.projectName}: ${tooltip}` : tooltip;
         }
     }
 
+    /**
+     * Update status bar to show loading state
+     */
+    public showLoading(tooltip: string = 'Starting LWC Preview server...'): void {
+        this.update('$(loading~spin)', tooltip);
+    }
+
+    /**
+     * Update status bar to show syncing state
+     */
+    public showSyncing(tooltip: string = 'Syncing LWC components...'): void {
+        this.update('$(sync~spin)', tooltip);
+    }
+
     /**
      * Update status bar to show ready state
      */
     public showReady(port: number): void {
-        if (this.statusBarItem) {
-            this.statusBarItem.text = '$(check) LWC Preview';
-            this.statusBarItem.tooltip = `LWC Preview ready (port ${port})`;
-        }
+        this.update('$(check)', `LWC Preview ready at http://localhost:${port}`);
     }
 
     /**
      * Update status bar to show warning state
      */
     public showWarning(tooltip: string): void {
-        if (this.statusBarItem) {
-            this.statusBarItem.text = '$(warning) LWC Preview';
-            this.statusBarItem.tooltip = tooltip;
-        }
+        this.update('$(warning)', tooltip);
     }
 
     /**
      * Update status bar to show error state
      */
     public showError(tooltip: string): void {
-        if (this.statusBarItem) {
-            this.statusBarItem.text = '$(error) LWC Preview';
-            this.statusBarItem.tooltip = tooltip;
-        }
+        this.update('$(error)', tooltip);
     }
 
     /**
@@ -81,4 +95,3 @@ export class StatusBarManager {
         }
     }
 }
-
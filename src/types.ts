@@ -2,9 +2,19 @@
  * Type definitions for the extension
  */
 
+export interface LwrErrorLocation {
+    /** Path of the file as printed by LWR (inside the LWR project) */
+    filePath: string;
+    /** 1-based line number */
+    line: number;
+    /** 0-based column number */
+    column: number;
+}
+
 export interface LwrErrorInfo {
     message: string;
     stack: string;
+    locations: LwrErrorLocation[];
 }
 
 export interface WebviewMessage {
@@ -48,6 +58,201 @@ export interface ForceReloadMessage extends WebviewMessage {
     type: 'forceReload';
 }
 
+export interface ShowServerOutputMessage extends WebviewMessage {
+    type: 'showServerOutput';
+}
+
+export interface PreviewReadyMessage extends WebviewMessage {
+    type: 'previewReady';
+}
+
+export type ComponentPropertyType = 'string' | 'number' | 'boolean' | 'json';
+
+export interface ComponentProperty {
+    name: string;
+    type: ComponentPropertyType;
+    defaultValue?: unknown;
+}
+
+export type PropertyValues = Record<string, unknown>;
+
+export interface PreviewScenario {
+    name: string;
+    description?: string;
+    props: PropertyValues;
+    slot?: string;
+    mocks: Record<string, unknown>;
+    events: string[];
+}
+
+export interface RecordContext {
+    recordId?: string;
+    objectApiName?: string;
+}
+
+export interface UpdateComponentStateMessage extends WebviewMessage {
+    type: 'updateComponentState';
+    componentName: string;
+    properties: ComponentProperty[];
+    propertyValues: PropertyValues;
+    scenarios: PreviewScenario[];
+    activeScenario: string | null;
+    recordContext: RecordContext;
+    rerender?: boolean;
+}
+
+export interface SetPropertyValuesMessage extends WebviewMessage {
+    type: 'setPropertyValues';
+    componentName: string;
+    values: PropertyValues;
+}
+
+export interface SelectScenarioMessage extends WebviewMessage {
+    type: 'selectScenario';
+    componentName: string;
+    scenarioName: string | null;
+}
+
+export interface SetRecordContextMessage extends WebviewMessage {
+    type: 'setRecordContext';
+    componentName: string;
+    recordContext: RecordContext;
+}
+
+export type ConsoleLogLevel = 'debug' | 'log' | 'info' | 'warn' | 'error';
+
+/**
+ * Level of a line in the server output channel
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface ConsoleMessage extends WebviewMessage {
+    type: 'consoleMessage';
+    level: ConsoleLogLevel;
+    componentName: string;
+    message: string;
+    timestamp: number;
+}
+
+export interface InspectedEvent {
+    componentName: string;
+    name: string;
+    detail: unknown;
+    bubbles: boolean;
+    composed: boolean;
+    timestamp: number;
+}
+
+export interface ExportEventsMessage extends WebviewMessage {
+    type: 'exportEvents';
+    componentName: string;
+    events: InspectedEvent[];
+}
+
+export interface UpdateServerStateMessage extends WebviewMessage {
+    type: 'updateServerState';
+    state: ServerState;
+    /** Current restart attempt while reconnecting */
+    attempt: number;
+    maxAttempts: number;
+}
+
+export interface OpenComponentMessage extends WebviewMessage {
+    type: 'openComponent';
+    componentName: string;
+}
+
+export interface OpenSourceLocationMessage extends WebviewMessage {
+    type: 'openSourceLocation';
+    filePath: string;
+    line: number;
+    column: number;
+}
+
+export interface ApexMockResponse {
+    data?: unknown;
+    error?: unknown;
+    latency?: number;
+}
+
+export interface ApexRequestMessage extends WebviewMessage {
+    type: 'apexRequest';
+    requestId: number;
+    methodName: string;
+}
+
+export interface ApexResponseMessage extends WebviewMessage {
+    type: 'apexResponse';
+    requestId: number;
+    response: ApexMockResponse;
+}
+
+export interface RecordFixture {
+    id: string;
+    apiName: string;
+    fields: Record<string, unknown>;
+}
+
+export interface SeedRecordsMessage extends WebviewMessage {
+    type: 'seedRecords';
+    records: RecordFixture[];
+}
+
+export interface RequestRecordStoreMessage extends WebviewMessage {
+    type: 'requestRecordStore';
+    requestId: number;
+}
+
+export interface RecordStoreSnapshotMessage extends WebviewMessage {
+    type: 'recordStoreSnapshot';
+    requestId: number;
+    records: unknown[] | null;
+}
+
+export interface ComponentDependencyNode {
+    componentName: string;
+    /** False for referenced components the project does not define */
+    exists: boolean;
+    /** Already expanded elsewhere in the tree (shared dependency or cycle), so its dependencies are omitted */
+    isRepeated: boolean;
+    dependencies: ComponentDependencyNode[];
+}
+
+export interface PreviewProject {
+    /** Workspace folder name */
+    name: string;
+    /** Root of the SFDX workspace folder */
+    workspaceRoot: string;
+    /** Port of the project's LWR server */
+    port: number;
+}
+
+/**
+ * Lifecycle of an LWR server: `starting` until it answers health checks, `reconnecting` while it is
+ * restarted after an unexpected exit, `failed` when it cannot be (re)started
+ */
+export type ServerState = 'stopped' | 'starting' | 'ready' | 'reconnecting' | 'failed';
+
+/** Server process of a project, recorded so a later session can stop it if it is left running */
+export interface ServerProcessRecord {
+    pid: number;
+    port: number;
+    /** Start time of the process from getProcessStartTime, so a reused process id is not taken for the server */
+    startTime: string;
+}
+
+/** The parts of sfdx-project.json the extension uses, with invalid values left out */
+export interface SfdxProject {
+    namespace?: string;
+    /** Paths of the package directories, relative to the workspace root */
+    packageDirectories: string[];
+}
+
+/** Workspace data resolved by the extension for the module provider of the LWR server */
+export interface ServerSettings {
+    labelFiles: string[];
+}
+
 export interface ServerStartOptions {
     port: number;
     projectRoot: string;
@@ -58,11 +263,68 @@ export interface CopyProgress {
     skipped: number;
 }
 
+export interface SyncManifestEntry {
+    size: number;
+    mtimeMs: number;
+    /** Modification time of the staged copy, so changes made to it outside of the sync are noticed */
+    stagedMtimeMs: number;
+}
+
+export interface SyncManifest {
+    version: number;
+    /** Staged files by path relative to the staging folder, with forward slashes */
+    files: Record<string, SyncManifestEntry>;
+}
+
+export interface SyncReconcileResult {
+    copied: number;
+    unchanged: number;
+    removed: number;
+}
+
+/** `copy` stages copies of the component files, `link` stages links to the component folders */
+export type SyncStrategy = 'copy' | 'link';
+
+export interface SyncBenchmark {
+    durationMs: number;
+    components: number;
+    /** Files duplicated into the LWR project; none with the link strategy */
+    stagedFiles: number;
+}
+
+/** Last file watcher event seen for a path */
+export type SyncEventKind = 'change' | 'delete';
+
+export interface SyncBatch extends SyncReconcileResult {
+    /** Components with synced changes, with one of their source paths */
+    changedComponents: Map<string, string>;
+    /** Components with a synced folder removed */
+    removedComponents: Set<string>;
+    /** Components with changed scenario files */
+    scenarioComponents: Set<string>;
+}
+
 export type MessageType =
     | UpdateComponentMessage
     | UpdateLoadingStateMessage
     | LwrErrorMessage
     | ClearLwrErrorMessage
     | ToggleAutoOpenMessage
-    | ForceReloadMessage;
+    | ForceReloadMessage
+    | ShowServerOutputMessage
+    | PreviewReadyMessage
+    | UpdateComponentStateMessage
+    | SetPropertyValuesMessage
+    | SelectScenarioMessage
+    | SetRecordContextMessage
+    | ConsoleMessage
+    | ExportEventsMessage
+    | OpenSourceLocationMessage
+    | OpenComponentMessage
+    | UpdateServerStateMessage
+    | ApexRequestMessage
+    | ApexResponseMessage
+    | SeedRecordsMessage
+    | RequestRecordStoreMessage
+    | RecordStoreSnapshotMessage;
 
@@ -0,0 +1,73 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { APEX_MOCKS_PATH } from '../constants';
+import { ApexMockResponse } from '../types';
+import { isJsonObject } from './json';
+import { logger } from './logger';
+
+/**
+ * Apex method names look like `Class.method` or `namespace.Class.method`
+ */
+const APEX_METHOD_NAME_PATTERN = /^[A-Za-z_][\w]*(\.[A-Za-z_][\w]*)+$/;
+
+/**
+ * Normalize a fixture value into a mock response envelope
+ */
+function toMockResponse(fixture: unknown, fixturePath: string): ApexMockResponse {
+    if (!isJsonObject(fixture)) {
+        return {
+            error: `Apex fixture ${fixturePath} must be an object with "data", "error" and/or "latency"`
+        };
+    }
+
+    return {
+        data: fixture.data,
+        error: fixture.error,
+        latency: typeof fixture.latency === 'number' ? fixture.latency : undefined
+    };
+}
+
+/**
+ * Resolve the mocked response of an Apex method from its workspace fixture file
+ * Fixtures are JSON only, so previewing a component never runs workspace code in the extension host
+ *
+ * @param workspaceRoot - Root of the SFDX workspace
+ * @param methodName - Apex method name (e.g., 'AccountController.getAccounts')
+ * @returns Mock response envelope; missing or broken fixtures resolve to an error response
+ *
+ * @example
+ * // .lwc-preview/mocks/apex/AccountController.getAccounts.json
+ * // { "data": [{ "Id": "001000000000001AAA", "Name": "Acme" }], "latency": 300 }
+ */
+export async function resolveApexMock(
+    workspaceRoot: string,
+    methodName: string
+): Promise<ApexMockResponse> {
+    if (!APEX_METHOD_NAME_PATTERN.test(methodName)) {
+        return { error: `Invalid Apex method name: ${methodName}` };
+    }
+
+    const fixturePath = `${path.join(workspaceRoot, APEX_MOCKS_PATH, methodName)}.json`;
+
+    try {
+        if (fs.existsSync(fixturePath)) {
+            const fixture: unknown = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+            return toMockResponse(fixture, fixturePath);
+        }
+    } catch (error) {
+        logger.error(`Failed to load Apex fixture for ${methodName}:`, error);
+        return {
+            error: `Failed to load Apex fixture for ${methodName}: ${error instanceof Error ? error.message : String(error)}`
+        };
+    }
+
+    return {
+        error: {
+            status: 404,
+            statusText: 'Not Found',
+            body: {
+                message: `No mock fixture for Apex method ${methodName}. Create ${APEX_MOCKS_PATH}/${methodName}.json`
+            }
+        }
+    };
+}
@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DEFAULT_NAMESPACE } from '../constants';
+import { listFilesRecursive } from './fileSystem';
+import { isScenarioPath } from './previewScenarios';
+import { logger } from './logger';
+
+/**
+ * `import ... from 'ns/name'`, `import 'ns/name'`, `import('ns/name')` and CSS `@import 'ns/name'`
+ */
+const MODULE_IMPORT_PATTERN = /\b(?:from|import)\s*\(?\s*['"]([A-Za-z]\w*)\/([A-Za-z_$][\w$]*)['"]/g;
+
+/**
+ * Custom element tags in templates, e.g. `<c-child-item`
+ */
+const TEMPLATE_TAG_PATTERN = /<([A-Za-z]\w*)-([A-Za-z0-9_-]+)(?=[\s/>])/g;
+
+/**
+ * File types scanned for references to other components
+ */
+const SCANNED_EXTENSIONS = ['.js', '.ts', '.html', '.css'];
+
+/**
+ * Convert the kebab-case name of a template tag to the component name
+ *
+ * @example
+ * tagNameToComponentName('child-item')
+ * // Returns: 'childItem'
+ */
+export function tagNameToComponentName(tagName: string): string {
+    return tagName.toLowerCase().replace(/-([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+/**
+ * Get the names of the components a component references directly
+ * Both `c` and the project namespace count as local; other namespaces (e.g. `lightning`) are skipped
+ *
+ * @param componentDirPath - Source directory of the component
+ * @param namespace - Project namespace from sfdx-project.json, if any
+ * @returns Referenced component names, without the component itself
+ */
+export function getDirectDependencies(componentDirPath: string, namespace: string | null = null): Set<string> {
+    const localNamespaces = new Set([DEFAULT_NAMESPACE, ...(namespace ? [namespace] : [])]);
+    const componentName = path.basename(componentDirPath);
+    const dependencies = new Set<string>();
+
+    let files: string[];
+    try {
+        files = listFilesRecursive(componentDirPath, (srcPath) => !isScenarioPath(srcPath));
+    } catch (error) {
+        logger.error(`Failed to scan ${componentDirPath}:`, error);
+        return dependencies;
+    }
+
+    for (const file of files) {
+        const extension = path.extname(file).toLowerCase();
+        if (!SCANNED_EXTENSIONS.includes(extension)) {
+            continue;
+        }
+
+        let content: string;
+        try {
+            content = fs.readFileSync(path.join(componentDirPath, file), 'utf8');
+        } catch {
+            continue;
+        }
+
+        for (const match of content.matchAll(MODULE_IMPORT_PATTERN)) {
+            if (localNamespaces.has(match[1])) {
+                dependencies.add(match[2]);
+            }
+        }
+
+        if (extension === '.html') {
+            for (const match of content.matchAll(TEMPLATE_TAG_PATTERN)) {
+                if (localNamespaces.has(match[1])) {
+                    dependencies.add(tagNameToComponentName(match[2]));
+                }
+            }
+        }
+    }
+
+    dependencies.delete(componentName);
+    return dependencies;
+}
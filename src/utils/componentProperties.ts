@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import { ComponentProperty, ComponentPropertyType } from '../types';
+import { logger } from './logger';
+
+/**
+ * Matches an `@api` decorated member and captures the async/accessor keyword,
+ * the member name and the token that follows it
+ */
+const API_MEMBER_PATTERN = /@api\s+(?:(async|get|set)\s+)?([A-Za-z_$][\w$]*)\s*(\(|=|;|\n|\r|})?/g;
+
+/**
+ * Remove block and line comments so commented-out decorators are ignored
+ */
+function stripComments(source: string): string {
+    return source
+        .replace(/\/\*[\s\S]*?\*\//g, '')
+        .replace(/(^|[^:'"`\\])\/\/.*$/gm, '$1');
+}
+
+/**
+ * Read the initializer expression of a field declared at the given offset
+ */
+function readInitializer(source: string, offset: number): string {
+    const match = source.slice(offset).match(/^\s*=\s*([^;\n]+)/);
+    return match ? match[1].trim() : '';
+}
+
+/**
+ * Infer the editor type and default value from a field initializer
+ */
+function inferFromInitializer(initializer: string): { type: ComponentPropertyType; defaultValue?: unknown } {
+    if (!initializer) {
+        return { type: 'string' };
+    }
+
+    const stringMatch = initializer.match(/^(['"`])(.*)\1$/);
+    if (stringMatch) {
+        return { type: 'string', defaultValue: stringMatch[2] };
+    }
+
+    if (initializer === 'true' || initializer === 'false') {
+        return { type: 'boolean', defaultValue: initializer === 'true' };
+    }
+
+    if (/^-?\d+(\.\d+)?$/.test(initializer)) {
+        return { type: 'number', defaultValue: Number(initializer) };
+    }
+
+    if (initializer.startsWith('[') || initializer.startsWith('{')) {
+        try {
+            return { type: 'json', defaultValue: JSON.parse(initializer) };
+        } catch {
+            return { type: 'json' };
+        }
+    }
+
+    return { type: 'string' };
+}
+
+/**
+ * Statically analyse component source and return its public (@api) properties
+ * Public methods are skipped and getter/setter pairs are reported once
+ *
+ * @param source - JavaScript source of the component
+ * @returns Public properties in declaration order
+ *
+ * @example
+ * parsePublicProperties("@api title = 'Hello';")
+ * // Returns: [{ name: 'title', type: 'string', defaultValue: 'Hello' }]
+ */
+export function parsePublicProperties(source: string): ComponentProperty[] {
+    const code = stripComments(source);
+    const properties = new Map<string, ComponentProperty>();
+
+    API_MEMBER_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = API_MEMBER_PATTERN.exec(code)) !== null) {
+        const [, keyword, name, nextToken] = match;
+        const accessor = keyword === 'get' || keyword === 'set' ? keyword : undefined;
+
+        // Async members and plain members followed by "(" are public methods, not properties
+        if (keyword === 'async' || (!accessor && nextToken === '(')) {
+            continue;
+        }
+
+        if (properties.has(name)) {
+            continue;
+        }
+
+        if (accessor) {
+            properties.set(name, { name, type: 'string' });
+            continue;
+        }
+
+        const initializerOffset = match.index + match[0].length - (nextToken ? nextToken.length : 0);
+        const { type, defaultValue } = inferFromInitializer(readInitializer(code, initializerOffset));
+        properties.set(name, { name, type, defaultValue });
+    }
+
+    return Array.from(properties.values());
+}
+
+/**
+ * Read a component JavaScript file and return its public (@api) properties
+ *
+ * @param jsFilePath - Path to the component's main .js file
+ * @returns Public properties, or an empty list if the file cannot be read
+ */
+export function getPublicProperties(jsFilePath: string): ComponentProperty[] {
+    if (!fs.existsSync(jsFilePath)) {
+        return [];
+    }
+
+    try {
+        return parsePublicProperties(fs.readFileSync(jsFilePath, 'utf8'));
+    } catch (error) {
+        logger.error('Failed to analyse public properties:', error);
+        return [];
+    }
+}
@@ -6,12 +6,17 @@ import { LOG_PREFIX } from '../constants';
  * Component information extracted from file path
  */
 export interface ComponentInfo {
-    /** Full module path (e.g., 'c/myComponent') */
+    /** Full module path (e.g., 'c/myComponent'); components are always synced into the `c` namespace */
     modulePath: string;
     /** Component name (e.g., 'myComponent') */
     componentName: string;
 }
 
+/**
+ * Looks up the workspace source directory of a component by name
+ */
+export type ComponentDirectoryLookup = (componentName: string) => string | null;
+
 /**
  * Extract component information from a file path
  * Looks for 'lwc' directory in path and extracts component name
@@ -80,6 +85,81 @@ export function isComponentValid(componentPath: string, componentName: string):
     return fs.existsSync(htmlPath) && fs.existsSync(jsPath);
 }
 
+/**
+ * Map a file staged in the LWR project (`src/modules/c/...`) back to its workspace source file
+ * Works with absolute paths and with paths relative to the LWR project root; workspace paths
+ * of previewed component files are returned as they are
+ * 
+ * @param stagedPath - Path of the staged copy, as printed by LWR
+ * @param getComponentDirectory - Lookup of component source directories
+ * @returns Workspace source path, or null if the path is not a staged component file that exists
+ * 
+ * @example
+ * resolveStagedSourcePath('/storage/lwr-base-project/src/modules/c/myComponent/myComponent.js', lookup)
+ * // Returns: '/ws/force-app/main/default/lwc/myComponent/myComponent.js'
+ */
+export function resolveStagedSourcePath(stagedPath: string, getComponentDirectory: ComponentDirectoryLookup): string | null {
+    const pathParts = stagedPath.split(/[\\/]/);
+
+    for (let index = pathParts.length - 3; index >= 1; index--) {
+        if (pathParts[index - 1] === 'src' && pathParts[index] === 'modules' && pathParts[index + 1] === 'c') {
+            const relativeParts = pathParts.slice(index + 2).filter(part => part !== '');
+            const componentDirectory = relativeParts.length > 0 ? getComponentDirectory(relativeParts[0]) : null;
+            if (!componentDirectory) {
+                return null;
+            }
+
+            const sourcePath = path.join(componentDirectory, ...relativeParts.slice(1));
+            return fs.existsSync(sourcePath) ? sourcePath : null;
+        }
+    }
+
+    // Components staged as links may be reported by their workspace path
+    const componentInfo = getComponentInfo(stagedPath);
+    const componentDirectory = componentInfo ? getComponentDirectory(componentInfo.componentName) : null;
+    const normalizedPath = path.normalize(stagedPath);
+    if (componentDirectory && normalizedPath.startsWith(componentDirectory + path.sep) && fs.existsSync(normalizedPath)) {
+        return normalizedPath;
+    }
+
+    return null;
+}
+
+/**
+ * Map a source location reported by the preview to a workspace source file
+ * Accepts staged file paths (server errors) and LWR module URLs (browser stack frames);
+ * a module URL maps to the component's main .js file
+ * 
+ * @param filePath - Staged file path or module URL (e.g., '.../mi/c%2FmyComponent%2Fv%2F1/...')
+ * @param getComponentDirectory - Lookup of component source directories
+ * @returns Workspace source path, or null if it cannot be resolved
+ */
+export function resolvePreviewSourcePath(filePath: string, getComponentDirectory: ComponentDirectoryLookup): string | null {
+    if (!/^https?:/.test(filePath)) {
+        return resolveStagedSourcePath(filePath, getComponentDirectory);
+    }
+
+    let decodedUrl: string;
+    try {
+        decodedUrl = decodeURIComponent(filePath);
+    } catch {
+        return null;
+    }
+
+    const match = decodedUrl.match(/\/mi\/c\/([A-Za-z_$][\w$]*)/);
+    if (!match) {
+        return null;
+    }
+
+    const componentDirectory = getComponentDirectory(match[1]);
+    if (!componentDirectory) {
+        return null;
+    }
+
+    const sourcePath = path.join(componentDirectory, `${match[1]}.js`);
+    return fs.existsSync(sourcePath) ? sourcePath : null;
+}
+
 /**
  * Get the component directory path from a file path
  * 
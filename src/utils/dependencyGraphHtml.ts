@@ -0,0 +1,133 @@
+import { ComponentDependencyNode } from '../types';
+import { escapeHtml } from './previewHtml';
+
+/**
+ * Count the distinct project components of a dependency tree, without the root
+ */
+function countDependencies(node: ComponentDependencyNode, seen: Set<string> = new Set()): number {
+    for (const dependency of node.dependencies) {
+        if (dependency.exists && !seen.has(dependency.componentName)) {
+            seen.add(dependency.componentName);
+            countDependencies(dependency, seen);
+        }
+    }
+    seen.delete(node.componentName);
+    return seen.size;
+}
+
+/**
+ * Render a node and its dependencies as nested list items
+ */
+function renderNode(node: ComponentDependencyNode): string {
+    const name = escapeHtml(node.componentName);
+    let label: string;
+
+    if (!node.exists) {
+        label = `<span class="component missing" title="Not defined in this project">c/${name}</span> <span class="note">not in project</span>`;
+    } else {
+        label = `<a class="component" href="#" data-component="${name}" title="Open ${name}">c/${name}</a>`;
+        if (node.isRepeated) {
+            label += ' <span class="note">shown above</span>';
+        }
+    }
+
+    const children = node.dependencies.length > 0
+        ? `<ul>${node.dependencies.map(renderNode).join('')}</ul>`
+        : '';
+
+    return `<li>${label}${children}</li>`;
+}
+
+/**
+ * Generate HTML for the component dependency panel
+ *
+ * @param tree - Dependency tree of the component, from ComponentDependencyGraph.getDependencyTree
+ * @param projectName - Name of the SFDX project the component belongs to
+ */
+export function getDependencyGraphHtml(tree: ComponentDependencyNode, projectName: string = ''): string {
+    const componentName = escapeHtml(tree.componentName);
+    const dependencyCount = countDependencies(tree);
+    const summary = dependencyCount === 0
+        ? 'Uses no other components of the project.'
+        : `Uses ${dependencyCount} component${dependencyCount === 1 ? '' : 's'} of the project, directly or through other components.`;
+
+    return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline';">
+        <title>Component Dependencies</title>
+        <style>
+            body {
+                margin: 0;
+                padding: 16px 20px;
+                font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+                font-size: 13px;
+                background: #1e1e1e;
+                color: #cccccc;
+            }
+            h2 {
+                margin: 0 0 4px;
+                font-size: 16px;
+                font-weight: 600;
+            }
+            .project {
+                color: #858585;
+                font-weight: normal;
+            }
+            .summary {
+                margin: 0 0 16px;
+                color: #858585;
+            }
+            ul {
+                list-style: none;
+                margin: 0;
+                padding-left: 20px;
+                border-left: 1px solid #3e3e42;
+            }
+            ul.root {
+                padding-left: 0;
+                border-left: none;
+            }
+            li {
+                margin: 4px 0;
+            }
+            .component {
+                color: #4ec9b0;
+                font-family: 'Courier New', monospace;
+                text-decoration: none;
+            }
+            a.component:hover {
+                text-decoration: underline;
+            }
+            .component.missing {
+                color: #858585;
+            }
+            .note {
+                color: #858585;
+                font-style: italic;
+            }
+        </style>
+    </head>
+    <body>
+        <h2>c/${componentName}${projectName ? ` <span class="project">${escapeHtml(projectName)}</span>` : ''}</h2>
+        <p class="summary">${summary}</p>
+        <ul class="root">${renderNode(tree)}</ul>
+        <script>
+            const vscode = acquireVsCodeApi();
+
+            document.addEventListener('click', (event) => {
+                const link = event.target.closest('a[data-component]');
+                if (!link) return;
+
+                event.preventDefault();
+                vscode.postMessage({
+                    type: 'openComponent',
+                    componentName: link.dataset.component
+                });
+            });
+        </script>
+    </body>
+    </html>`;
+}
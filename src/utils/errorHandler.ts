@@ -1,4 +1,4 @@
-import { LwrErrorInfo } from '../types';
+import { LwrErrorInfo, LwrErrorLocation } from '../types';
 
 /**
  * Custom error classes for better error handling
@@ -95,6 +95,63 @@ function extractGenericError(output: string): string {
     return lines[0] || output;
 }
 
+/**
+ * Matches a file staged under `src/modules/c/` with an optional `:line:column` suffix
+ */
+const STAGED_FILE_PATTERN = /((?:[A-Za-z]:)?[^\s'"()]*src[\\/]modules[\\/]c[\\/][^\s'"():]+)(?::(\d+)(?::(\d+))?)?/g;
+
+/**
+ * Matches a Babel/LWC compiler position such as `(12:4)` (0-based column)
+ */
+const COMPILER_POSITION_PATTERN = /\((\d+):(\d+)\)/;
+
+/**
+ * Identify a staged file by its path relative to `src/modules/c/`, whatever prefix LWR printed
+ */
+function getStagedFileKey(filePath: string): string {
+    return filePath.replace(/\\/g, '/').replace(/^.*src\/modules\/c\//, '');
+}
+
+/**
+ * Extract the staged component files (with line and column) mentioned in error output
+ * Positions come from `file:line:column` suffixes or a compiler `(line:column)` later on the same line;
+ * files mentioned without any position are reported at line 1
+ */
+export function extractErrorLocations(errorOutput: string): LwrErrorLocation[] {
+    const positioned = new Map<string, LwrErrorLocation>();
+    const unpositioned = new Map<string, LwrErrorLocation>();
+    const plainOutput = errorOutput.replace(/\x1b\[[0-9;]*m/g, '');
+
+    for (const line of plainOutput.split('\n')) {
+        STAGED_FILE_PATTERN.lastIndex = 0;
+        let match: RegExpExecArray | null;
+
+        while ((match = STAGED_FILE_PATTERN.exec(line)) !== null) {
+            const [fullMatch, filePath, lineText, columnText] = match;
+            const compilerPosition = lineText
+                ? null
+                : line.slice(match.index + fullMatch.length).match(COMPILER_POSITION_PATTERN);
+
+            if (lineText) {
+                const column = columnText ? Math.max(Number(columnText) - 1, 0) : 0;
+                positioned.set(`${getStagedFileKey(filePath)}:${lineText}:${column}`, { filePath, line: Number(lineText), column });
+            } else if (compilerPosition) {
+                const location = { filePath, line: Number(compilerPosition[1]), column: Number(compilerPosition[2]) };
+                positioned.set(`${getStagedFileKey(filePath)}:${location.line}:${location.column}`, location);
+            } else {
+                unpositioned.set(getStagedFileKey(filePath), { filePath, line: 1, column: 0 });
+            }
+        }
+    }
+
+    const positionedFiles = new Set(Array.from(positioned.values()).map(location => getStagedFileKey(location.filePath)));
+    return Array.from(positioned.values()).concat(
+        Array.from(unpositioned.entries())
+            .filter(([fileKey]) => !positionedFiles.has(fileKey))
+            .map(([, location]) => location)
+    );
+}
+
 /**
  * Determine error type from output
  */
@@ -149,7 +206,7 @@ export function parseLwrError(errorOutput: string): LwrErrorInfo | null {
     const errorMessage = `${errorType}: ${extractErrorMessage(errorOutput, errorType)}`;
     const errorStack = errorOutput;
 
-    return { message: errorMessage, stack: errorStack };
+    return { message: errorMessage, stack: errorStack, locations: extractErrorLocations(errorOutput) };
 }
 
 /**
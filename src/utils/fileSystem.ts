@@ -1,13 +1,20 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { createHash } from 'crypto';
 import { FileSyncError } from './errorHandler';
 import { CopyProgress } from '../types';
 import { LOG_PREFIX } from '../constants';
 
 /**
  * Recursively delete a directory and its contents
+ * A symbolic link is removed without touching its target
  */
 export function deleteDirectoryRecursive(dirPath: string): void {
+    if (isSymbolicLink(dirPath)) {
+        fs.unlinkSync(dirPath);
+        return;
+    }
+
     if (!fs.existsSync(dirPath)) {
         return;
     }
@@ -36,32 +43,15 @@ export function deleteDirectoryRecursive(dirPath: string): void {
 }
 
 /**
- * Clean up the 'c' folder contents
+ * Compute the SHA-1 of a file's contents
  */
-export function cleanupComponentFolder(extensionPath: string): void {
-    const cFolderPath = path.join(extensionPath, 'src', 'modules', 'c');
-    if (!fs.existsSync(cFolderPath)) return;
-
-    try {
-        const files = fs.readdirSync(cFolderPath);
-
-        for (const file of files) {
-            const filePath = path.join(cFolderPath, file);
-            const stats = fs.lstatSync(filePath);
-
-            if (stats.isDirectory()) {
-                deleteDirectoryRecursive(filePath);
-            } else {
-                fs.unlinkSync(filePath);
-            }
-        }
-    } catch (error) {
-        console.error(`${LOG_PREFIX} Cleanup error:`, error);
-    }
+export function hashFile(filePath: string): string {
+    return createHash('sha1').update(fs.readFileSync(filePath)).digest('hex');
 }
 
 /**
- * Check if file should be copied based on modification time and size
+ * Check if file should be copied, i.e. its contents differ from the destination
+ * Sizes are compared first so only same-sized files are hashed
  */
 export function shouldCopyFile(srcPath: string, destPath: string): boolean {
     try {
@@ -70,7 +60,7 @@ export function shouldCopyFile(srcPath: string, destPath: string): boolean {
         const srcStats = fs.statSync(srcPath);
         const destStats = fs.statSync(destPath);
 
-        return srcStats.mtimeMs > destStats.mtimeMs || srcStats.size !== destStats.size;
+        return srcStats.size !== destStats.size || hashFile(srcPath) !== hashFile(destPath);
     } catch (error) {
         return true;
     }
@@ -119,13 +109,51 @@ export function isDirectory(filePath: string): boolean {
     }
 }
 
+/**
+ * Check if a path is a symbolic link (or a Windows junction), whether or not its target exists
+ */
+export function isSymbolicLink(filePath: string): boolean {
+    try {
+        return fs.lstatSync(filePath).isSymbolicLink();
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * List the files below a directory
+ * Entries rejected by the optional filter are skipped entirely
+ *
+ * @returns Paths relative to the directory, with forward slashes
+ */
+export function listFilesRecursive(dirPath: string, filter?: (srcPath: string) => boolean): string[] {
+    const files: string[] = [];
+
+    for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+        const entryPath = path.join(dirPath, entry.name);
+        if (filter && !filter(entryPath)) {
+            continue;
+        }
+
+        if (entry.isDirectory()) {
+            files.push(...listFilesRecursive(entryPath, filter).map(file => `${entry.name}/${file}`));
+        } else {
+            files.push(entry.name);
+        }
+    }
+
+    return files;
+}
+
 /**
  * Copy directory recursively (optimized - only copies changed files)
+ * Entries rejected by the optional filter are skipped entirely
  */
 export async function copyDirectoryOptimized(
     src: string,
     dest: string,
-    onProgress?: (progress: CopyProgress) => void
+    onProgress?: (progress: CopyProgress) => void,
+    filter?: (srcPath: string) => boolean
 ): Promise<void> {
     if (!fs.existsSync(src)) {
         throw new FileSyncError(`Source directory does not exist: ${src}`);
@@ -142,8 +170,12 @@ export async function copyDirectoryOptimized(
             const srcPath = path.join(src, entry.name);
             const destPath = path.join(dest, entry.name);
 
+            if (filter && !filter(srcPath)) {
+                continue;
+            }
+
             if (entry.isDirectory()) {
-                await copyDirectoryOptimized(srcPath, destPath, onProgress);
+                await copyDirectoryOptimized(srcPath, destPath, onProgress, filter);
             } else {
                 if (shouldCopyFile(srcPath, destPath)) {
                     copyFile(srcPath, destPath);
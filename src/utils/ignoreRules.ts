@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DEFAULT_IGNORE_PATTERNS, FORCEIGNORE_FILE, PREVIEW_IGNORE_FILE } from '../constants';
+import { logger } from './logger';
+
+/**
+ * A single gitignore-style rule
+ */
+export interface IgnoreRule {
+    /** Pattern as written in the ignore file */
+    pattern: string;
+    /** Matches a workspace-relative path with forward slashes */
+    regex: RegExp;
+    /** `!pattern`: re-includes paths excluded by earlier rules */
+    negated: boolean;
+    /** `pattern/`: only matches directories */
+    directoryOnly: boolean;
+}
+
+/**
+ * Convert a gitignore glob (without leading `!` or trailing `/`) to a regular expression source
+ */
+function globToRegexSource(glob: string): string {
+    let source = '';
+
+    for (let index = 0; index < glob.length; index++) {
+        const char = glob[index];
+
+        if (char === '*') {
+            if (glob[index + 1] === '*') {
+                const atSegmentStart = index === 0 || glob[index - 1] === '/';
+                const atSegmentEnd = index + 2 === glob.length || glob[index + 2] === '/';
+                if (atSegmentStart && atSegmentEnd) {
+                    // `**/` matches any number of directories, a trailing `**` everything below
+                    source += index + 2 === glob.length ? '.*' : '(?:.*/)?';
+                    index += 2;
+                    continue;
+                }
+            }
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const closeIndex = glob.indexOf(']', index + 1);
+            if (closeIndex === -1) {
+                source += '\\[';
+            } else {
+                source += glob.slice(index, closeIndex + 1).replace(/^\[!/, '[^');
+                index = closeIndex;
+            }
+        } else if (char === '\\' && index + 1 < glob.length) {
+            source += glob[++index].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        } else {
+            source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    return source;
+}
+
+/**
+ * Parse the contents of a gitignore-style file (the `.forceignore` syntax)
+ *
+ * @param content - File contents
+ * @returns Rules in file order
+ */
+export function parseIgnoreRules(content: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        let line = rawLine.replace(/(?<!\\)\s+$/, '');
+        if (line === '' || line.startsWith('#')) {
+            continue;
+        }
+
+        const negated = line.startsWith('!');
+        if (negated) {
+            line = line.slice(1);
+        }
+
+        const directoryOnly = line.endsWith('/');
+        line = line.replace(/\/+$/, '');
+
+        // Patterns with a slash before their end are relative to the workspace root
+        const anchored = line.includes('/');
+        line = line.replace(/^\//, '');
+        if (line === '') {
+            continue;
+        }
+
+        const body = globToRegexSource(line);
+        rules.push({
+            pattern: rawLine.trim(),
+            regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+            negated,
+            directoryOnly
+        });
+    }
+
+    return rules;
+}
+
+/**
+ * Load the sync ignore rules of a workspace: built-in defaults, then `.forceignore`,
+ * then `.lwcpreviewignore`; later rules win, so either file can re-include with `!`
+ *
+ * @param workspaceRoot - Root of the SFDX workspace
+ */
+export function loadIgnoreRules(workspaceRoot: string): IgnoreRule[] {
+    const rules = parseIgnoreRules(DEFAULT_IGNORE_PATTERNS.join('\n'));
+
+    for (const ignoreFile of [FORCEIGNORE_FILE, PREVIEW_IGNORE_FILE]) {
+        const ignoreFilePath = path.join(workspaceRoot, ignoreFile);
+        if (!fs.existsSync(ignoreFilePath)) {
+            continue;
+        }
+
+        try {
+            rules.push(...parseIgnoreRules(fs.readFileSync(ignoreFilePath, 'utf8')));
+        } catch (error) {
+            logger.error(`Failed to read ${ignoreFile}:`, error);
+        }
+    }
+
+    return rules;
+}
+
+/**
+ * Check a single path against the rules; the last matching rule decides
+ */
+function matchesRules(rules: IgnoreRule[], relativePath: string, isDirectory: boolean): boolean {
+    let ignored = false;
+
+    for (const rule of rules) {
+        if (rule.directoryOnly && !isDirectory) {
+            continue;
+        }
+        if (rule.regex.test(relativePath)) {
+            ignored = !rule.negated;
+        }
+    }
+
+    return ignored;
+}
+
+/**
+ * Check if a path is excluded by the ignore rules
+ * As with git, nothing inside an ignored directory can be re-included
+ *
+ * @param rules - Rules from loadIgnoreRules
+ * @param relativePath - Path relative to the workspace root
+ * @param isDirectory - Whether the path is a directory
+ *
+ * @example
+ * isIgnoredPath(rules, 'force-app/main/default/lwc/card/__tests__/card.test.js', false)
+ * // Returns: true (with the default `__tests__/` rule)
+ */
+export function isIgnoredPath(rules: IgnoreRule[], relativePath: string, isDirectory: boolean): boolean {
+    const segments = relativePath.split(/[\\/]/).filter(segment => segment !== '');
+
+    for (let index = 1; index < segments.length; index++) {
+        if (matchesRules(rules, segments.slice(0, index).join('/'), true)) {
+            return true;
+        }
+    }
+
+    return segments.length > 0 && matchesRules(rules, segments.join('/'), isDirectory);
+}
@@ -0,0 +1,9 @@
+/**
+ * Check if a parsed JSON value is an object, rather than an array, a primitive or null
+ * Fixture, scenario and project files are user input, so their content is narrowed with this before use
+ *
+ * @param value - Value from JSON.parse
+ */
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
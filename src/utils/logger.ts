@@ -0,0 +1,146 @@
+import * as util from 'util';
+import * as vscode from 'vscode';
+import { CONFIG_KEYS, LOG_PREFIX, SERVER_OUTPUT_CHANNEL_NAME } from '../constants';
+import { LogLevel } from '../types';
+
+/**
+ * Log levels in increasing severity
+ */
+const LEVEL_ORDER: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Terminal color and cursor sequences in process output
+ */
+const ANSI_ESCAPE_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]/g;
+
+/**
+ * Writes the extension's own messages and the output of the processes it runs to the
+ * "LWC Preview: Server" output channel, with timestamps and levels
+ *
+ * Shared by services and utils alike, so it is a module-level instance rather than a constructor dependency.
+ * Messages logged before initialize() go to the extension host console.
+ */
+class Logger {
+    private outputChannel: vscode.OutputChannel | null = null;
+    private minimumLevel: LogLevel | 'off' = 'info';
+
+    /**
+     * Create the output channel and follow changes to the level setting
+     */
+    public initialize(context: vscode.ExtensionContext): void {
+        this.outputChannel = vscode.window.createOutputChannel(SERVER_OUTPUT_CHANNEL_NAME);
+        context.subscriptions.push(this.outputChannel);
+        this.loadMinimumLevel();
+
+        context.subscriptions.push(
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration(CONFIG_KEYS.LOG_LEVEL)) {
+                    this.loadMinimumLevel();
+                }
+            })
+        );
+    }
+
+    /**
+     * Load the minimum level of the extension's own messages from configuration
+     */
+    private loadMinimumLevel(): void {
+        const config = vscode.workspace.getConfiguration();
+        this.minimumLevel = config.get(CONFIG_KEYS.LOG_LEVEL, 'info');
+    }
+
+    /**
+     * Check if a message level passes the configured filter
+     */
+    private isLevelEnabled(level: LogLevel): boolean {
+        if (this.minimumLevel === 'off') {
+            return false;
+        }
+        return LEVEL_ORDER.indexOf(level) >= LEVEL_ORDER.indexOf(this.minimumLevel);
+    }
+
+    /**
+     * Log details that only help when investigating a problem
+     */
+    public debug(message: string, ...details: unknown[]): void {
+        this.log('debug', message, details);
+    }
+
+    /**
+     * Log a notable step, e.g. a sync or server start
+     */
+    public info(message: string, ...details: unknown[]): void {
+        this.log('info', message, details);
+    }
+
+    /**
+     * Log something that went wrong but was worked around
+     */
+    public warn(message: string, ...details: unknown[]): void {
+        this.log('warn', message, details);
+    }
+
+    /**
+     * Log a failure, with the error as a detail
+     */
+    public error(message: string, ...details: unknown[]): void {
+        this.log('error', message, details);
+    }
+
+    /**
+     * Append output of the LWR server or npm, line by line
+     * Process output is always written; lwc-preview.logLevel only filters the extension's own messages
+     *
+     * @param source - Process the output comes from, e.g. `server:myProject`
+     * @param output - Chunk of stdout or stderr
+     * @param level - `info` for stdout, `warn` for stderr
+     */
+    public appendOutput(source: string, output: string, level: LogLevel): void {
+        const lines = output.replace(ANSI_ESCAPE_PATTERN, '').split(/\r?\n/).filter(line => line.trim() !== '');
+        for (const line of lines) {
+            this.write(level, `[${source}] ${line}`);
+        }
+    }
+
+    /**
+     * Reveal the output channel without taking focus from the editor
+     */
+    public show(): void {
+        if (this.outputChannel) {
+            this.outputChannel.show(true);
+        }
+    }
+
+    /**
+     * Format a message like console.log would, including error stacks, and write it if its level is enabled
+     */
+    private log(level: LogLevel, message: string, details: unknown[]): void {
+        if (this.outputChannel && !this.isLevelEnabled(level)) {
+            return;
+        }
+        this.write(level, util.format(message, ...details));
+    }
+
+    /**
+     * Write a line like `[12:30:45.123] [ERROR] message`
+     */
+    private write(level: LogLevel, text: string): void {
+        if (!this.outputChannel) {
+            console[level === 'debug' ? 'log' : level](`${LOG_PREFIX} ${text}`);
+            return;
+        }
+
+        this.outputChannel.appendLine(`[${this.formatTimestamp(Date.now())}] [${level.toUpperCase()}] ${text}`);
+    }
+
+    /**
+     * Format a timestamp as local time with milliseconds
+     */
+    private formatTimestamp(timestamp: number): string {
+        const date = new Date(timestamp);
+        const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+        return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+    }
+}
+
+export const logger = new Logger();
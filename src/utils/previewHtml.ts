@@ -1,3 +1,15 @@
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
 /**
  * Generate loading HTML for preview panel
  */
@@ -89,13 +101,13 @@ export function getErrorHtml(message: string): string {
 /**
  * Generate main preview HTML for preview panel
  */
-export function getPreviewHtml(componentName: string, port: number, autoOpenEnabled: boolean = true): string {
+export function getPreviewHtml(componentName: string, port: number, autoOpenEnabled: boolean = true, projectName: string = ''): string {
     return `<!DOCTYPE html>
     <html lang="en">
     <head>
         <meta charset="UTF-8">
         <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline'; frame-src http://localhost:*;">
+        <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline'; frame-src http://localhost:${port};">
         <title>LWC Preview</title>
         <style>
             body, html {
@@ -128,6 +140,15 @@ export function getPreviewHtml(componentName: string, port: number, autoOpenEnab
                 color: #4ec9b0;
                 font-family: 'Courier New', monospace;
             }
+            .toolbar-project {
+                background: #3c3c3c;
+                border-radius: 4px;
+                padding: 2px 6px;
+                font-size: 11px;
+            }
+            .toolbar-project:empty {
+                display: none;
+            }
             .toolbar-spacer {
                 flex: 1;
             }
@@ -179,6 +200,120 @@ export function getPreviewHtml(componentName: string, port: number, autoOpenEnab
                 0% { transform: rotate(0deg); }
                 100% { transform: rotate(360deg); }
             }
+            .toolbar-button {
+                display: flex;
+                align-items: center;
+                gap: 6px;
+                padding: 6px 12px;
+                background: #3e3e42;
+                border-radius: 4px;
+                cursor: pointer;
+                user-select: none;
+                border: 1px solid #555;
+                font-size: 12px;
+                color: #cccccc;
+            }
+            .toolbar-button:hover {
+                background: #4e4e52;
+                border-color: #666;
+            }
+            .toolbar-button.active {
+                background: #0e639c;
+                border-color: #0e639c;
+            }
+            .toolbar-badge {
+                background: #252526;
+                border-radius: 8px;
+                padding: 0 6px;
+                font-size: 11px;
+            }
+            .scenario-select {
+                display: none;
+                background: #3c3c3c;
+                color: #cccccc;
+                border: 1px solid #555;
+                border-radius: 4px;
+                padding: 5px 8px;
+                font-size: 12px;
+                font-family: inherit;
+                max-width: 200px;
+            }
+            .scenario-select.available {
+                display: block;
+            }
+            .properties-panel {
+                display: none;
+                background: #252526;
+                color: #cccccc;
+                font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+                font-size: 12px;
+                border-bottom: 1px solid #3e3e42;
+                max-height: 40vh;
+                overflow-y: auto;
+                padding: 8px 12px;
+            }
+            .properties-panel.open {
+                display: block;
+            }
+            .properties-empty {
+                color: #858585;
+                font-style: italic;
+            }
+            .record-context-hint {
+                color: #cca700;
+                padding-top: 4px;
+            }
+            .record-context-hint:empty {
+                display: none;
+            }
+            .property-row {
+                display: grid;
+                grid-template-columns: 180px 1fr 24px;
+                align-items: start;
+                gap: 8px;
+                padding: 4px 0;
+            }
+            .property-name {
+                font-family: 'Courier New', monospace;
+                color: #9cdcfe;
+                padding-top: 4px;
+                overflow: hidden;
+                text-overflow: ellipsis;
+            }
+            .property-type {
+                color: #858585;
+                font-size: 10px;
+                margin-left: 4px;
+            }
+            .property-input {
+                width: 100%;
+                box-sizing: border-box;
+                background: #3c3c3c;
+                color: #cccccc;
+                border: 1px solid #555;
+                border-radius: 3px;
+                padding: 4px 6px;
+                font-family: 'Courier New', monospace;
+                font-size: 12px;
+            }
+            .property-input.invalid {
+                border-color: #f48771;
+            }
+            textarea.property-input {
+                min-height: 48px;
+                resize: vertical;
+            }
+            .property-reset {
+                background: none;
+                border: none;
+                color: #858585;
+                cursor: pointer;
+                font-size: 14px;
+                padding: 2px;
+            }
+            .property-reset:hover {
+                color: #cccccc;
+            }
             .toggle-switch {
                 position: relative;
                 width: 44px;
@@ -242,6 +377,73 @@ export function getPreviewHtml(componentName: string, port: number, autoOpenEnab
             .preview-frame {
                 flex: 1;
             }
+            .events-pane {
+                background: #252526;
+                color: #cccccc;
+                font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif;
+                font-size: 12px;
+                border-top: 1px solid #3e3e42;
+            }
+            .events-header {
+                display: flex;
+                align-items: center;
+                gap: 8px;
+                padding: 4px 12px;
+                cursor: pointer;
+                user-select: none;
+            }
+            .events-title {
+                flex: 1;
+                font-weight: 600;
+            }
+            .events-action {
+                background: none;
+                border: 1px solid #555;
+                border-radius: 3px;
+                color: #cccccc;
+                cursor: pointer;
+                font-size: 11px;
+                padding: 2px 8px;
+            }
+            .events-action:hover {
+                background: #3e3e42;
+            }
+            .events-list {
+                display: none;
+                max-height: 30vh;
+                overflow-y: auto;
+                padding: 0 12px 8px;
+            }
+            .events-pane.open .events-list {
+                display: block;
+            }
+            .event-entry summary {
+                cursor: pointer;
+                padding: 2px 0;
+                font-family: 'Courier New', monospace;
+            }
+            .event-time {
+                color: #858585;
+                margin-right: 8px;
+            }
+            .event-name {
+                color: #dcdcaa;
+            }
+            .event-flag {
+                color: #858585;
+                border: 1px solid #555;
+                border-radius: 3px;
+                font-size: 10px;
+                margin-left: 6px;
+                padding: 0 4px;
+            }
+            .event-detail {
+                margin: 2px 0 6px 16px;
+                color: #ce9178;
+                font-family: 'Courier New', monospace;
+                white-space: pre-wrap;
+                word-break: break-word;
+            }
             .loading-overlay {
                 position: absolute;
                 top: 0;
@@ -271,6 +473,53 @@ export function getPreviewHtml(componentName: string, port: number, autoOpenEnab
                 color: #cccccc;
                 font-size: 14px;
             }
+            .server-overlay-title {
+                margin-top: 20px;
+                color: #cccccc;
+                font-size: 16px;
+                font-weight: 600;
+            }
+            .server-overlay-detail {
+                margin-top: 8px;
+                color: #858585;
+                font-size: 13px;
+                text-align: center;
+                max-width: 420px;
+            }
+            .server-overlay-actions {
+                display: none;
+                gap: 10px;
+                margin-top: 20px;
+            }
+            .server-overlay-action {
+                padding: 8px 16px;
+                background: #0e639c;
+                color: #ffffff;
+                border: none;
+                border-radius: 4px;
+                cursor: pointer;
+                font-size: 13px;
+                font-family: inherit;
+            }
+            .server-overlay-action:hover {
+                background: #1177bb;
+            }
+            .server-overlay-action.secondary {
+                background: #3e3e42;
+                color: #cccccc;
+            }
+            .server-overlay-action.secondary:hover {
+                background: #4e4e52;
+            }
+            .server-overlay.failed .loading-spinner {
+                display: none;
+            }
+            .server-overlay.failed .server-overlay-title {
+                color: #f48771;
+            }
+            .server-overlay.failed .server-overlay-actions {
+                display: flex;
+            }
             @keyframes spin {
                 0% { transform: rotate(0deg); }
                 100% { transform: rotate(360deg); }
@@ -348,9 +597,21 @@ export function getPreviewHtml(componentName: string, port: number, autoOpenEnab
                 white-space: pre-wrap;
                 word-wrap: break-word;
             }
-            .lwr-error-dismiss {
-                display: block;
-                margin: 20px auto 0;
+            .stack-link {
+                color: #3794ff;
+                cursor: pointer;
+                text-decoration: none;
+            }
+            .stack-link:hover {
+                text-decoration: underline;
+            }
+            .lwr-error-actions {
+                display: flex;
+                justify-content: center;
+                gap: 10px;
+                margin-top: 20px;
+            }
+            .lwr-error-action {
                 padding: 10px 20px;
                 background: #3e3e42;
                 color: #cccccc;
@@ -360,7 +621,7 @@ export function getPreviewHtml(componentName: string, port: number, autoOpenEnab
                 font-size: 14px;
                 font-family: inherit;
             }
-            .lwr-error-dismiss:hover {
+            .lwr-error-action:hover {
                 background: #4e4e52;
             }
         </style>
@@ -369,8 +630,18 @@ export function getPreviewHtml(componentName: string, port: number, autoOpenEnab
         <div class="container">
             <div class="toolbar">
                 <span class="toolbar-title">⚡ LWC Preview</span>
+                <span class="toolbar-project" id="project-name" title="SFDX project of the previewed component">${escapeHtml(projectName)}</span>
                 <span class="toolbar-component" id="component-name">${componentName}</span>
                 <div class="toolbar-spacer"></div>
+                <select class="scenario-select" id="scenario-select" title="Preview scenario"></select>
+                <div class="toolbar-button" id="properties-button" title="Edit the component's public (@api) properties">
+                    <span>⚙ Properties</span>
+                    <span class="toolbar-badge" id="properties-count">0</span>
+                </div>
+                <div class="toolbar-button" id="record-context-button" title="Simulate the record page the component is placed on">
+                    <span>🗂 Record</span>
+                    <span class="toolbar-badge" id="record-context-badge">none</span>
+                </div>
                 <div class="force-reload-button" id="force-reload-button" title="Force Reload - Restart server and refresh preview">
                     <span class="reload-icon">🔄</span>
                     <span class="reload-label">Force Reload</span>
@@ -384,11 +655,44 @@ export function getPreviewHtml(componentName: string, port: number, autoOpenEnab
                     </div>
                 </div>
             </div>
+            <div class="properties-panel" id="properties-panel"></div>
+            <div class="properties-panel" id="record-context-panel">
+                <div class="property-row">
+                    <div class="property-name">objectApiName</div>
+                    <input class="property-input" id="record-object-input" list="record-object-options" placeholder="e.g. Account">
+                    <button class="property-reset" id="record-context-clear" title="Clear record context">×</button>
+                </div>
+                <div class="property-row">
+                    <div class="property-name">recordId</div>
+                    <input class="property-input" id="record-id-input" list="record-id-options" placeholder="Record id">
+                </div>
+                <div class="record-context-hint" id="record-context-hint"></div>
+                <datalist id="record-object-options"></datalist>
+                <datalist id="record-id-options"></datalist>
+            </div>
             <iframe id="preview-frame" class="preview-frame" src="http://localhost:${port}"></iframe>
+            <div class="events-pane" id="events-pane">
+                <div class="events-header" id="events-header" title="Events dispatched by the component">
+                    <span id="events-toggle">▸</span>
+                    <span class="events-title">Events <span class="toolbar-badge" id="events-count">0</span></span>
+                    <button class="events-action" id="events-export" title="Export events to a JSON file">Export</button>
+                    <button class="events-action" id="events-clear" title="Clear events">Clear</button>
+                </div>
+                <div class="events-list" id="events-list"></div>
+            </div>
             <div class="loading-overlay" id="loading-overlay">
                 <div class="loading-spinner"></div>
                 <div class="loading-text" id="loading-text">Loading component...</div>
             </div>
+            <div class="loading-overlay server-overlay" id="server-overlay">
+                <div class="loading-spinner"></div>
+                <div class="server-overlay-title" id="server-overlay-title">Reconnecting to the preview server...</div>
+                <div class="server-overlay-detail" id="server-overlay-detail"></div>
+                <div class="server-overlay-actions">
+                    <button class="server-overlay-action" id="server-overlay-action">Force Reload</button>
+                    <button class="server-overlay-action secondary" id="server-overlay-log">Show Server Log</button>
+                </div>
+            </div>
             <div class="lwr-error-overlay" id="lwr-error-overlay">
                 <div class="lwr-error-container">
                     <div class="lwr-error-icon">🔥</div>
@@ -400,7 +704,10 @@ export function getPreviewHtml(componentName: string, port: number, autoOpenEnab
                             <pre id="lwr-error-stack"></pre>
                         </details>
                     </div>
-                    <button class="lwr-error-dismiss" id="lwr-error-dismiss">Dismiss</button>
+                    <div class="lwr-error-actions">
+                        <button class="lwr-error-action" id="lwr-error-log">Show Server Log</button>
+                        <button class="lwr-error-action" id="lwr-error-dismiss">Dismiss</button>
+                    </div>
                 </div>
             </div>
         </div>
@@ -414,9 +721,33 @@ export function getPreviewHtml(componentName: string, port: number, autoOpenEnab
             const lwrErrorMessage = document.getElementById('lwr-error-message');
             const lwrErrorStack = document.getElementById('lwr-error-stack');
             const lwrErrorDismiss = document.getElementById('lwr-error-dismiss');
+            const lwrErrorLog = document.getElementById('lwr-error-log');
             const autoOpenToggle = document.getElementById('auto-open-toggle');
             const toggleLabel = document.getElementById('toggle-label');
             const forceReloadButton = document.getElementById('force-reload-button');
+            const serverOverlay = document.getElementById('server-overlay');
+            const serverOverlayTitle = document.getElementById('server-overlay-title');
+            const serverOverlayDetail = document.getElementById('server-overlay-detail');
+            const serverOverlayAction = document.getElementById('server-overlay-action');
+            const serverOverlayLog = document.getElementById('server-overlay-log');
+            
+            const propertiesButton = document.getElementById('properties-button');
+            const propertiesCount = document.getElementById('properties-count');
+            const propertiesPanel = document.getElementById('properties-panel');
+            const scenarioSelect = document.getElementById('scenario-select');
+            const eventsPane = document.getElementById('events-pane');
+            const eventsToggle = document.getElementById('events-toggle');
+            const eventsCount = document.getElementById('events-count');
+            const eventsList = document.getElementById('events-list');
+            const recordContextButton = document.getElementById('record-context-button');
+            const recordContextBadge = document.getElementById('record-context-badge');
+            const recordContextPanel = document.getElementById('record-context-panel');
+            const recordObjectInput = document.getElementById('record-object-input');
+            const recordIdInput = document.getElementById('record-id-input');
+            const recordContextHint = document.getElementById('record-context-hint');
+            const recordObjectOptions = document.getElementById('record-object-options');
+            const recordIdOptions = document.getElementById('record-id-options');
+            const previewOrigin = 'http://localhost:${port}';
             
             let autoOpenEnabled = ${autoOpenEnabled ? 'true' : 'false'};
             let isReloading = false;
@@ -432,13 +763,55 @@ export function getPreviewHtml(componentName: string, port: number, autoOpenEnab
 
             function showLwrError(errorMessage, errorStack) {
                 lwrErrorMessage.textContent = errorMessage;
-                lwrErrorStack.textContent = errorStack;
+                renderStackTrace(lwrErrorStack, errorStack);
                 lwrErrorOverlay.style.display = 'block';
                 lwrErrorOverlay.offsetHeight;
                 lwrErrorOverlay.classList.add('active');
                 setLoading(false);
             }
 
+            // Files staged under src/modules/c with an optional :line:column, or a compiler (line:column) later on the line
+            const STAGED_LOCATION_PATTERN = /((?:[A-Za-z]:)?[^\\s'"()]*src[\\\\/]modules[\\\\/]c[\\\\/][^\\s'"():]+)(?::(\\d+)(?::(\\d+))?)?/g;
+            const COMPILER_POSITION_PATTERN = /\\((\\d+):(\\d+)\\)/;
+
+            function createStackLink(text, filePath, line, column) {
+                const link = document.createElement('a');
+                link.className = 'stack-link';
+                link.textContent = text;
+                link.title = 'Open in editor';
+                link.addEventListener('click', (event) => {
+                    event.preventDefault();
+                    vscode.postMessage({ type: 'openSourceLocation', filePath: filePath, line: line, column: column });
+                });
+                return link;
+            }
+
+            function renderStackTrace(container, stackText) {
+                container.innerHTML = '';
+                (stackText || '').split('\\n').forEach((stackLine, index) => {
+                    if (index > 0) {
+                        container.appendChild(document.createTextNode('\\n'));
+                    }
+
+                    let lastIndex = 0;
+                    let match;
+                    STAGED_LOCATION_PATTERN.lastIndex = 0;
+                    while ((match = STAGED_LOCATION_PATTERN.exec(stackLine)) !== null) {
+                        const matchEnd = match.index + match[0].length;
+                        const compilerPosition = match[2] ? null : stackLine.slice(matchEnd).match(COMPILER_POSITION_PATTERN);
+                        const line = match[2] ? Number(match[2]) : compilerPosition ? Number(compilerPosition[1]) : 1;
+                        const column = match[2]
+                            ? (match[3] ? Number(match[3]) - 1 : 0)
+                            : compilerPosition ? Number(compilerPosition[2]) : 0;
+
+                        container.appendChild(document.createTextNode(stackLine.slice(lastIndex, match.index)));
+                        container.appendChild(createStackLink(match[0], match[1], line, column));
+                        lastIndex = matchEnd;
+                    }
+                    container.appendChild(document.createTextNode(stackLine.slice(lastIndex)));
+                });
+            }
+
             function dismissLwrError() {
                 lwrErrorOverlay.classList.remove('active');
                 setTimeout(() => lwrErrorOverlay.style.display = 'none', 300);
@@ -446,6 +819,13 @@ export function getPreviewHtml(componentName: string, port: number, autoOpenEnab
 
             lwrErrorDismiss.addEventListener('click', dismissLwrError);
 
+            function showServerOutput() {
+                vscode.postMessage({ type: 'showServerOutput' });
+            }
+
+            lwrErrorLog.addEventListener('click', showServerOutput);
+            serverOverlayLog.addEventListener('click', showServerOutput);
+
             // Handle force reload button
             forceReloadButton.addEventListener('click', () => {
                 if (isReloading) return; // Prevent double-clicking
@@ -489,11 +869,535 @@ export function getPreviewHtml(componentName: string, port: number, autoOpenEnab
                 }
             }
 
+            // Property editor state for the displayed component
+            let stateComponentName = '';
+            let componentProperties = [];
+            let propertyValues = {};
+            let propertyInputTimer = null;
+            let scenarios = [];
+            let activeScenarioName = null;
+
+            propertiesButton.addEventListener('click', () => {
+                propertiesPanel.classList.toggle('open');
+                propertiesButton.classList.toggle('active');
+            });
+
+            function getActiveScenario() {
+                return scenarios.find(scenario => scenario.name === activeScenarioName) || null;
+            }
+
+            function getAppliedPropertyValues() {
+                // Apply values of known properties plus anything the active scenario sets explicitly
+                const activeScenario = getActiveScenario();
+                const allowedNames = componentProperties.map(property => property.name)
+                    .concat(activeScenario ? Object.keys(activeScenario.props) : []);
+                const applied = {};
+                allowedNames.forEach(name => {
+                    if (Object.prototype.hasOwnProperty.call(propertyValues, name)) {
+                        applied[name] = propertyValues[name];
+                    }
+                });
+                return applied;
+            }
+
+            function pushScenarioToPreview() {
+                if (!isLwcReady || !stateComponentName) return;
+                const activeScenario = getActiveScenario();
+                iframe.contentWindow.postMessage({
+                    type: 'updateScenario',
+                    componentName: stateComponentName,
+                    slot: activeScenario && activeScenario.slot ? activeScenario.slot : '',
+                    mocks: activeScenario ? activeScenario.mocks : {},
+                    events: activeScenario ? activeScenario.events : []
+                }, previewOrigin);
+            }
+
+            function rerenderPreview() {
+                if (!isLwcReady) return;
+                iframe.contentWindow.postMessage({ type: 'rerenderComponent' }, previewOrigin);
+            }
+
+            function renderScenarioSelect() {
+                scenarioSelect.innerHTML = '';
+                scenarioSelect.classList.toggle('available', scenarios.length > 0);
+
+                const noneOption = document.createElement('option');
+                noneOption.value = '';
+                noneOption.textContent = 'No scenario';
+                scenarioSelect.appendChild(noneOption);
+
+                scenarios.forEach(scenario => {
+                    const option = document.createElement('option');
+                    option.value = scenario.name;
+                    option.textContent = scenario.name;
+                    if (scenario.description) {
+                        option.title = scenario.description;
+                    }
+                    scenarioSelect.appendChild(option);
+                });
+                scenarioSelect.value = activeScenarioName || '';
+            }
+
+            function applyScenario(scenarioName) {
+                activeScenarioName = scenarioName || null;
+                const activeScenario = getActiveScenario();
+                if (activeScenario) {
+                    propertyValues = Object.assign({}, activeScenario.props);
+                    savePropertyValues();
+                }
+                renderPropertiesPanel();
+                renderRecordContextPanel();
+                pushScenarioToPreview();
+                pushPropertiesToPreview();
+                rerenderPreview();
+            }
+
+            scenarioSelect.addEventListener('change', () => {
+                applyScenario(scenarioSelect.value);
+                vscode.postMessage({
+                    type: 'selectScenario',
+                    componentName: stateComponentName,
+                    scenarioName: activeScenarioName
+                });
+            });
+
+            function pushPropertiesToPreview() {
+                if (!isLwcReady || !stateComponentName) return;
+                iframe.contentWindow.postMessage({
+                    type: 'updateProperties',
+                    componentName: stateComponentName,
+                    properties: getAppliedPropertyValues()
+                }, previewOrigin);
+            }
+
+            function savePropertyValues() {
+                vscode.postMessage({
+                    type: 'setPropertyValues',
+                    componentName: stateComponentName,
+                    values: propertyValues
+                });
+            }
+
+            function parsePropertyInput(property, rawValue) {
+                if (rawValue === '') {
+                    return { isSet: false };
+                }
+                if (property.type === 'number') {
+                    const numberValue = Number(rawValue);
+                    return isNaN(numberValue) ? { invalid: true } : { isSet: true, value: numberValue };
+                }
+                if (property.type === 'boolean') {
+                    return { isSet: true, value: rawValue === 'true' };
+                }
+                if (property.type === 'json') {
+                    try {
+                        return { isSet: true, value: JSON.parse(rawValue) };
+                    } catch (e) {
+                        return { invalid: true };
+                    }
+                }
+                return { isSet: true, value: rawValue };
+            }
+
+            function formatPropertyValue(property, value) {
+                if (value === undefined) return '';
+                if (property.type === 'json') return JSON.stringify(value, null, 2);
+                return String(value);
+            }
+
+            function createPropertyInput(property) {
+                let input;
+                if (property.type === 'boolean') {
+                    input = document.createElement('select');
+                    ['', 'true', 'false'].forEach(optionValue => {
+                        const option = document.createElement('option');
+                        option.value = optionValue;
+                        option.textContent = optionValue || '(default)';
+                        input.appendChild(option);
+                    });
+                } else if (property.type === 'json') {
+                    input = document.createElement('textarea');
+                } else {
+                    input = document.createElement('input');
+                    input.type = property.type === 'number' ? 'number' : 'text';
+                }
+                input.className = 'property-input';
+                input.value = formatPropertyValue(property, propertyValues[property.name]);
+                if (property.defaultValue !== undefined && property.type !== 'boolean') {
+                    input.placeholder = formatPropertyValue(property, property.defaultValue);
+                }
+
+                const onEdit = () => {
+                    const result = parsePropertyInput(property, input.value);
+                    input.classList.toggle('invalid', !!result.invalid);
+                    if (result.invalid) return;
+                    if (result.isSet) {
+                        propertyValues[property.name] = result.value;
+                    } else {
+                        delete propertyValues[property.name];
+                    }
+                    clearTimeout(propertyInputTimer);
+                    propertyInputTimer = setTimeout(() => {
+                        pushPropertiesToPreview();
+                        savePropertyValues();
+                    }, 300);
+                };
+                input.addEventListener(property.type === 'boolean' ? 'change' : 'input', onEdit);
+                return input;
+            }
+
+            function renderPropertiesPanel() {
+                propertiesPanel.innerHTML = '';
+                propertiesCount.textContent = String(componentProperties.length);
+
+                if (componentProperties.length === 0) {
+                    const empty = document.createElement('div');
+                    empty.className = 'properties-empty';
+                    empty.textContent = 'This component has no public (@api) properties.';
+                    propertiesPanel.appendChild(empty);
+                    return;
+                }
+
+                componentProperties.forEach(property => {
+                    const row = document.createElement('div');
+                    row.className = 'property-row';
+
+                    const name = document.createElement('div');
+                    name.className = 'property-name';
+                    name.textContent = property.name;
+                    const type = document.createElement('span');
+                    type.className = 'property-type';
+                    type.textContent = property.type;
+                    name.appendChild(type);
+
+                    const input = createPropertyInput(property);
+
+                    const reset = document.createElement('button');
+                    reset.className = 'property-reset';
+                    reset.title = 'Reset to default';
+                    reset.textContent = '×';
+                    reset.addEventListener('click', () => {
+                        delete propertyValues[property.name];
+                        input.value = '';
+                        input.classList.remove('invalid');
+                        pushPropertiesToPreview();
+                        savePropertyValues();
+                    });
+
+                    row.appendChild(name);
+                    row.appendChild(input);
+                    row.appendChild(reset);
+                    propertiesPanel.appendChild(row);
+                });
+            }
+
+            // Events dispatched by the previewed component, oldest first
+            let inspectedEvents = [];
+            const MAX_INSPECTED_EVENTS = 500;
+
+            document.getElementById('events-header').addEventListener('click', () => {
+                const isOpen = eventsPane.classList.toggle('open');
+                eventsToggle.textContent = isOpen ? '▾' : '▸';
+            });
+
+            document.getElementById('events-clear').addEventListener('click', (event) => {
+                event.stopPropagation();
+                inspectedEvents = [];
+                renderEventsList();
+            });
+
+            document.getElementById('events-export').addEventListener('click', (event) => {
+                event.stopPropagation();
+                vscode.postMessage({
+                    type: 'exportEvents',
+                    componentName: stateComponentName,
+                    events: inspectedEvents
+                });
+            });
+
+            function formatEventTime(timestamp) {
+                const date = new Date(timestamp);
+                const pad = (value, length) => String(value).padStart(length || 2, '0');
+                return pad(date.getHours()) + ':' + pad(date.getMinutes()) + ':' + pad(date.getSeconds()) + '.' + pad(date.getMilliseconds(), 3);
+            }
+
+            function createEventEntry(inspectedEvent) {
+                const entry = document.createElement('details');
+                entry.className = 'event-entry';
+
+                const summary = document.createElement('summary');
+                const time = document.createElement('span');
+                time.className = 'event-time';
+                time.textContent = formatEventTime(inspectedEvent.timestamp);
+                const name = document.createElement('span');
+                name.className = 'event-name';
+                name.textContent = inspectedEvent.name;
+                summary.appendChild(time);
+                summary.appendChild(name);
+                ['bubbles', 'composed'].forEach(flag => {
+                    if (inspectedEvent[flag]) {
+                        const badge = document.createElement('span');
+                        badge.className = 'event-flag';
+                        badge.textContent = flag;
+                        summary.appendChild(badge);
+                    }
+                });
+
+                const detail = document.createElement('pre');
+                detail.className = 'event-detail';
+                detail.textContent = JSON.stringify(inspectedEvent.detail, null, 2);
+
+                entry.appendChild(summary);
+                entry.appendChild(detail);
+                return entry;
+            }
+
+            function renderEventsList() {
+                eventsList.innerHTML = '';
+                eventsCount.textContent = String(inspectedEvents.length);
+                if (inspectedEvents.length === 0) {
+                    const empty = document.createElement('div');
+                    empty.className = 'properties-empty';
+                    empty.textContent = 'No events dispatched yet.';
+                    eventsList.appendChild(empty);
+                    return;
+                }
+                inspectedEvents.forEach(inspectedEvent => eventsList.appendChild(createEventEntry(inspectedEvent)));
+            }
+
+            function addInspectedEvent(inspectedEvent) {
+                const wasEmpty = inspectedEvents.length === 0;
+                const isScrolledToEnd = eventsList.scrollTop + eventsList.clientHeight >= eventsList.scrollHeight - 4;
+
+                inspectedEvents.push(inspectedEvent);
+                if (wasEmpty) {
+                    eventsList.innerHTML = '';
+                }
+                if (inspectedEvents.length > MAX_INSPECTED_EVENTS) {
+                    inspectedEvents.shift();
+                    eventsList.removeChild(eventsList.firstChild);
+                }
+                eventsList.appendChild(createEventEntry(inspectedEvent));
+                eventsCount.textContent = String(inspectedEvents.length);
+
+                if (isScrolledToEnd) {
+                    eventsList.scrollTop = eventsList.scrollHeight;
+                }
+            }
+
+            renderEventsList();
+
+            // Record fixtures seeding the runtime's mock record store
+            let recordFixtures = null;
+
+            function pushRecordsToPreview() {
+                if (!isLwcReady || !recordFixtures) return;
+                iframe.contentWindow.postMessage({
+                    type: 'seedRecords',
+                    records: recordFixtures
+                }, previewOrigin);
+            }
+
+            // Simulated record page context for the displayed component
+            let recordContext = {};
+            let recordContextTimer = null;
+            const RECORD_CONTEXT_PROPERTIES = ['recordId', 'objectApiName'];
+
+            recordContextButton.addEventListener('click', () => {
+                recordContextPanel.classList.toggle('open');
+                recordContextButton.classList.toggle('active');
+            });
+
+            function getKnownRecords() {
+                // Records the runtime can see: workspace fixtures plus the active scenario's records
+                const activeScenario = getActiveScenario();
+                const scenarioRecords = activeScenario && activeScenario.mocks ? activeScenario.mocks.records : null;
+                let records = (recordFixtures || []).slice();
+                if (Array.isArray(scenarioRecords)) {
+                    records = records.concat(scenarioRecords);
+                } else if (scenarioRecords && typeof scenarioRecords === 'object') {
+                    records = records.concat(Object.keys(scenarioRecords).map(id => Object.assign({ id: id }, scenarioRecords[id])));
+                }
+                return records.filter(record => record && record.id);
+            }
+
+            function getRecordName(record) {
+                const name = record.fields ? record.fields.Name : undefined;
+                return name && typeof name === 'object' ? name.value : name;
+            }
+
+            function getDeclaredRecordContextProperties() {
+                return RECORD_CONTEXT_PROPERTIES.filter(name =>
+                    componentProperties.some(property => property.name === name));
+            }
+
+            function getAppliedRecordContext() {
+                // Like the platform, only inject the values the component declares as @api
+                const applied = {};
+                getDeclaredRecordContextProperties().forEach(name => {
+                    if (recordContext[name]) {
+                        applied[name] = recordContext[name];
+                    }
+                });
+                return applied;
+            }
+
+            function pushRecordContextToPreview() {
+                if (!isLwcReady || !stateComponentName) return;
+                iframe.contentWindow.postMessage({
+                    type: 'updateRecordContext',
+                    componentName: stateComponentName,
+                    recordContext: getAppliedRecordContext()
+                }, previewOrigin);
+            }
+
+            function saveRecordContext() {
+                vscode.postMessage({
+                    type: 'setRecordContext',
+                    componentName: stateComponentName,
+                    recordContext: recordContext
+                });
+            }
+
+            function getRecordContextHint(knownRecords) {
+                if (stateComponentName && getDeclaredRecordContextProperties().length === 0) {
+                    return 'This component does not declare @api recordId or objectApiName, so the record context is not passed to it.';
+                }
+                if (!recordContext.recordId) {
+                    return '';
+                }
+                const record = knownRecords.find(known => known.id === recordContext.recordId);
+                if (!record) {
+                    return 'No record fixture has this id, so getRecord will report it as not found.';
+                }
+                if (recordContext.objectApiName && record.apiName && record.apiName !== recordContext.objectApiName) {
+                    return 'This record is a ' + record.apiName + ', not a ' + recordContext.objectApiName + '.';
+                }
+                return '';
+            }
+
+            function renderRecordContextPanel() {
+                const knownRecords = getKnownRecords();
+
+                recordObjectOptions.innerHTML = '';
+                Array.from(new Set(knownRecords.map(record => record.apiName).filter(Boolean))).sort().forEach(apiName => {
+                    const option = document.createElement('option');
+                    option.value = apiName;
+                    recordObjectOptions.appendChild(option);
+                });
+
+                recordIdOptions.innerHTML = '';
+                knownRecords
+                    .filter(record => !recordContext.objectApiName || record.apiName === recordContext.objectApiName)
+                    .forEach(record => {
+                        const option = document.createElement('option');
+                        option.value = record.id;
+                        option.label = [record.apiName, getRecordName(record)].filter(Boolean).join(': ');
+                        recordIdOptions.appendChild(option);
+                    });
+
+                if (document.activeElement !== recordObjectInput) {
+                    recordObjectInput.value = recordContext.objectApiName || '';
+                }
+                if (document.activeElement !== recordIdInput) {
+                    recordIdInput.value = recordContext.recordId || '';
+                }
+                recordContextBadge.textContent = recordContext.recordId || 'none';
+                recordContextHint.textContent = getRecordContextHint(knownRecords);
+            }
+
+            function onRecordContextEdit() {
+                recordContext = {};
+                if (recordObjectInput.value.trim()) {
+                    recordContext.objectApiName = recordObjectInput.value.trim();
+                }
+                if (recordIdInput.value.trim()) {
+                    recordContext.recordId = recordIdInput.value.trim();
+                }
+
+                // Picking a known record fills in its object
+                const record = getKnownRecords().find(known => known.id === recordContext.recordId);
+                if (record && record.apiName && !recordContext.objectApiName) {
+                    recordContext.objectApiName = record.apiName;
+                    recordObjectInput.value = record.apiName;
+                }
+
+                renderRecordContextPanel();
+                clearTimeout(recordContextTimer);
+                recordContextTimer = setTimeout(() => {
+                    pushRecordContextToPreview();
+                    saveRecordContext();
+                }, 300);
+            }
+
+            recordObjectInput.addEventListener('input', onRecordContextEdit);
+            recordIdInput.addEventListener('input', onRecordContextEdit);
+
+            document.getElementById('record-context-clear').addEventListener('click', () => {
+                recordContext = {};
+                recordObjectInput.value = '';
+                recordIdInput.value = '';
+                renderRecordContextPanel();
+                pushRecordContextToPreview();
+                saveRecordContext();
+            });
+
+            function applyComponentState(message) {
+                stateComponentName = message.componentName;
+                componentProperties = message.properties || [];
+                propertyValues = Object.assign({}, message.propertyValues || {});
+                scenarios = message.scenarios || [];
+                activeScenarioName = message.activeScenario || null;
+                recordContext = Object.assign({}, message.recordContext || {});
+                renderScenarioSelect();
+                renderRecordContextPanel();
+                pushRecordContextToPreview();
+
+                if (message.rerender) {
+                    // Scenario files changed: re-apply the active scenario and re-render
+                    applyScenario(activeScenarioName);
+                    return;
+                }
+
+                renderPropertiesPanel();
+                pushScenarioToPreview();
+                pushPropertiesToPreview();
+            }
+
             let isLwcReady = false;
             let pendingComponentName = '${componentName}';
+            let isServerDown = false;
+
+            // Cover the frame while the server restarts, then reload it with the current component
+            function updateServerState(message) {
+                if (message.state === 'reconnecting' || message.state === 'failed') {
+                    isServerDown = true;
+                    isLwcReady = false;
+                    setLoading(false);
+                    serverOverlay.classList.toggle('failed', message.state === 'failed');
+                    if (message.state === 'failed') {
+                        serverOverlayTitle.textContent = 'The preview server stopped';
+                        serverOverlayDetail.textContent = 'It stopped ' + message.maxAttempts + ' times in a row. Check the Output panel, then restart it.';
+                    } else {
+                        serverOverlayTitle.textContent = 'Reconnecting to the preview server...';
+                        serverOverlayDetail.textContent = 'The server stopped unexpectedly. Restart attempt ' + message.attempt + ' of ' + message.maxAttempts + '.';
+                    }
+                    serverOverlay.classList.add('active');
+                } else if (message.state === 'ready' && isServerDown) {
+                    isServerDown = false;
+                    serverOverlay.classList.remove('active', 'failed');
+                    pendingComponentName = componentNameEl.textContent || '';
+                    setLoading(true, 'Reloading component...');
+                    iframe.src = previewOrigin;
+                }
+            }
+
+            serverOverlayAction.addEventListener('click', () => {
+                forceReloadButton.click();
+            });
 
             window.addEventListener('message', event => {
-                if (event.source === iframe.contentWindow) {
+                if (event.source === iframe.contentWindow && event.origin === previewOrigin) {
                     const message = event.data;
                     if (message.type === 'componentLoadComplete') {
                         setLoading(false);
@@ -501,16 +1405,25 @@ export function getPreviewHtml(componentName: string, port: number, autoOpenEnab
                             loadingText.textContent = 'Failed to load ' + message.componentName;
                             setTimeout(() => setLoading(false), 2000);
                         }
+                    } else if (message.type === 'componentEvent') {
+                        addInspectedEvent(message);
+                    } else if (message.type === 'apexRequest' || message.type === 'recordStoreSnapshot' || message.type === 'consoleMessage' || message.type === 'openSourceLocation') {
+                        // Apex fixtures, record store inspection, console output and source navigation are handled by the extension
+                        vscode.postMessage(message);
                     } else if (message.type === 'lwcReady') {
                         // LWC component is ready to receive messages
                         isLwcReady = true;
+                        pushRecordsToPreview();
                         if (pendingComponentName) {
                             iframe.contentWindow.postMessage({
                                 type: 'updateComponent',
                                 componentName: pendingComponentName
-                            }, 'http://localhost:${port}');
+                            }, previewOrigin);
                             pendingComponentName = '';
                         }
+                        pushScenarioToPreview();
+                        pushPropertiesToPreview();
+                        pushRecordContextToPreview();
                     }
                     return;
                 }
@@ -520,24 +1433,56 @@ export function getPreviewHtml(componentName: string, port: number, autoOpenEnab
                 if (message.type === 'updateComponent') {
                     dismissLwrError();
                     componentNameEl.textContent = message.componentName || '';
+
+                    if (message.componentName !== stateComponentName) {
+                        stateComponentName = '';
+                        componentProperties = [];
+                        propertyValues = {};
+                        scenarios = [];
+                        activeScenarioName = null;
+                        recordContext = {};
+                        inspectedEvents = [];
+                        renderEventsList();
+                        renderPropertiesPanel();
+                        renderScenarioSelect();
+                        renderRecordContextPanel();
+                    }
                     
                     if (isLwcReady) {
                         iframe.contentWindow.postMessage({
                             type: 'updateComponent',
                             componentName: message.componentName
-                        }, 'http://localhost:${port}');
+                        }, previewOrigin);
                     } else {
                         // Store for later when LWC is ready
                         pendingComponentName = message.componentName;
                     }
                 } else if (message.type === 'updateLoadingState') {
                     setLoading(message.isLoading, message.text || 'Loading...');
+                } else if (message.type === 'updateServerState') {
+                    updateServerState(message);
                 } else if (message.type === 'lwrError') {
                     showLwrError(message.errorMessage, message.errorStack);
                 } else if (message.type === 'clearLwrError') {
                     dismissLwrError();
+                } else if (message.type === 'updateComponentState') {
+                    applyComponentState(message);
+                } else if (message.type === 'apexResponse') {
+                    iframe.contentWindow.postMessage(message, previewOrigin);
+                } else if (message.type === 'seedRecords') {
+                    recordFixtures = message.records || [];
+                    pushRecordsToPreview();
+                    renderRecordContextPanel();
+                } else if (message.type === 'requestRecordStore') {
+                    if (isLwcReady) {
+                        iframe.contentWindow.postMessage(message, previewOrigin);
+                    } else {
+                        vscode.postMessage({ type: 'recordStoreSnapshot', requestId: message.requestId, records: null });
+                    }
                 }
             });
+
+            vscode.postMessage({ type: 'previewReady' });
         </script>
     </body>
     </html>`;
@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SCENARIO_FILE_SUFFIX, SCENARIO_FOLDER } from '../constants';
+import { PreviewScenario } from '../types';
+import { isJsonObject } from './json';
+import { logger } from './logger';
+
+/**
+ * Check if a file path belongs to preview scenario definitions
+ * (a `<component>.preview.json` file or anything inside a `__previews__` folder)
+ *
+ * @param filePath - File path to check
+ * @returns True if the path is scenario data rather than component source
+ */
+export function isScenarioPath(filePath: string): boolean {
+    const normalizedPath = path.normalize(filePath);
+    if (path.basename(normalizedPath).endsWith(SCENARIO_FILE_SUFFIX)) {
+        return true;
+    }
+    return normalizedPath.split(path.sep).includes(SCENARIO_FOLDER);
+}
+
+/**
+ * Normalize a raw scenario entry, returning null when it has no usable name
+ */
+function normalizeScenario(raw: unknown, fallbackName: string): PreviewScenario | null {
+    if (!isJsonObject(raw)) {
+        return null;
+    }
+
+    const name = typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : fallbackName;
+    if (!name) {
+        return null;
+    }
+
+    return {
+        name,
+        description: typeof raw.description === 'string' ? raw.description : undefined,
+        props: isJsonObject(raw.props) ? raw.props : {},
+        slot: typeof raw.slot === 'string' ? raw.slot : undefined,
+        mocks: isJsonObject(raw.mocks) ? raw.mocks : {},
+        events: Array.isArray(raw.events) ? raw.events.filter((event): event is string => typeof event === 'string') : []
+    };
+}
+
+/**
+ * Read scenarios from a JSON file
+ * Accepts `{ "scenarios": [...] }`, a bare array, or a single scenario object
+ */
+function readScenarioFile(filePath: string, fallbackName: string): PreviewScenario[] {
+    try {
+        const content: unknown = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        const entries: unknown[] = Array.isArray(content)
+            ? content
+            : isJsonObject(content) && Array.isArray(content.scenarios) ? content.scenarios : [content];
+
+        return entries
+            .map((entry, index) => normalizeScenario(entry, entries.length > 1 ? `${fallbackName} ${index + 1}` : fallbackName))
+            .filter((scenario): scenario is PreviewScenario => scenario !== null);
+    } catch (error) {
+        logger.error(`Failed to read preview scenarios from ${filePath}:`, error);
+        return [];
+    }
+}
+
+/**
+ * Load all preview scenarios defined for a component
+ * Scenarios from `<component>.preview.json` come first, followed by `__previews__/*.json`
+ *
+ * @param componentDirPath - Path to the component directory in the workspace
+ * @param componentName - Name of the component
+ * @returns Scenarios with unique names
+ */
+export function loadScenarios(componentDirPath: string, componentName: string): PreviewScenario[] {
+    const scenarios: PreviewScenario[] = [];
+
+    const scenarioFilePath = path.join(componentDirPath, `${componentName}${SCENARIO_FILE_SUFFIX}`);
+    if (fs.existsSync(scenarioFilePath)) {
+        scenarios.push(...readScenarioFile(scenarioFilePath, 'Default'));
+    }
+
+    const scenarioFolderPath = path.join(componentDirPath, SCENARIO_FOLDER);
+    if (fs.existsSync(scenarioFolderPath)) {
+        const files = fs.readdirSync(scenarioFolderPath)
+            .filter(file => file.endsWith('.json'))
+            .sort();
+
+        for (const file of files) {
+            scenarios.push(...readScenarioFile(path.join(scenarioFolderPath, file), path.basename(file, '.json')));
+        }
+    }
+
+    const seenNames = new Set<string>();
+    return scenarios.filter(scenario => {
+        if (seenNames.has(scenario.name)) {
+            logger.warn(`Duplicate preview scenario "${scenario.name}" in ${componentName} ignored`);
+            return false;
+        }
+        seenNames.add(scenario.name);
+        return true;
+    });
+}
@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { RECORD_MOCKS_PATH } from '../constants';
+import { RecordFixture } from '../types';
+import { isJsonObject } from './json';
+import { logger } from './logger';
+
+/**
+ * Keys of a flat fixture record that are not fields
+ */
+const RECORD_METADATA_KEYS = ['id', 'Id', 'apiName', 'attributes', 'fields'];
+
+/**
+ * Collect the fields of a flat SObject; nested SObjects (with `attributes`) become relationship records
+ */
+function readFlatFields(raw: Record<string, unknown>): Record<string, unknown> {
+    const fields: Record<string, unknown> = {};
+    Object.keys(raw)
+        .filter(key => !RECORD_METADATA_KEYS.includes(key))
+        .forEach(key => {
+            const value = raw[key];
+            fields[key] = isJsonObject(value) && isJsonObject(value.attributes)
+                ? { id: value.Id || null, apiName: value.attributes.type, fields: readFlatFields(value) }
+                : value;
+        });
+    return fields;
+}
+
+/**
+ * Normalize a raw fixture entry, returning null when it has no record id
+ * Accepts `{ id, apiName, fields }` or a flat SObject like `{ Id, Name, attributes: { type } }`
+ */
+function normalizeRecord(raw: unknown, defaultApiName: string): RecordFixture | null {
+    if (!isJsonObject(raw)) {
+        return null;
+    }
+
+    const fields = isJsonObject(raw.fields) ? raw.fields : null;
+    const attributes = isJsonObject(raw.attributes) ? raw.attributes : null;
+
+    const id = raw.id || raw.Id || fields?.Id;
+    if (typeof id !== 'string' || !id) {
+        return null;
+    }
+
+    const apiName = [raw.apiName, attributes?.type].find((value): value is string => typeof value === 'string' && value !== '');
+    return {
+        id,
+        apiName: apiName || defaultApiName,
+        fields: fields || readFlatFields(raw)
+    };
+}
+
+/**
+ * Read records from a fixture file
+ * Accepts `{ "records": [...] }`, a bare array, or a single record; the file name is the default object API name
+ */
+function readRecordFile(filePath: string): RecordFixture[] {
+    try {
+        const content: unknown = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        const entries: unknown[] = Array.isArray(content)
+            ? content
+            : isJsonObject(content) && Array.isArray(content.records) ? content.records : [content];
+        const defaultApiName = path.basename(filePath, '.json');
+
+        return entries
+            .map(entry => {
+                const record = normalizeRecord(entry, defaultApiName);
+                if (!record) {
+                    logger.warn(`Record fixture without an id ignored in ${filePath}`);
+                }
+                return record;
+            })
+            .filter((record): record is RecordFixture => record !== null);
+    } catch (error) {
+        logger.error(`Failed to read record fixtures from ${filePath}:`, error);
+        return [];
+    }
+}
+
+/**
+ * Load the records that seed the preview's mock Lightning Data Service store
+ * Reads every `.lwc-preview/mocks/records/*.json` file in name order; later files win on duplicate ids
+ *
+ * @param workspaceRoot - Root of the SFDX workspace
+ * @returns Record fixtures with unique ids
+ *
+ * @example
+ * // .lwc-preview/mocks/records/Account.json
+ * // [{ "id": "001000000000001AAA", "fields": { "Name": "Acme", "Industry": "Energy" } }]
+ */
+export function loadRecordFixtures(workspaceRoot: string): RecordFixture[] {
+    const recordsPath = path.join(workspaceRoot, RECORD_MOCKS_PATH);
+    if (!fs.existsSync(recordsPath)) {
+        return [];
+    }
+
+    const records = new Map<string, RecordFixture>();
+    const files = fs.readdirSync(recordsPath)
+        .filter(file => file.endsWith('.json'))
+        .sort();
+
+    for (const file of files) {
+        for (const record of readRecordFile(path.join(recordsPath, file))) {
+            records.set(record.id, record);
+        }
+    }
+
+    return Array.from(records.values());
+}
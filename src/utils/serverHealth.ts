@@ -0,0 +1,113 @@
+import * as http from 'http';
+import * as vscode from 'vscode';
+import { SERVER_HEALTH_CHECK_TIMEOUT } from '../constants';
+import { ServerState } from '../types';
+import { ServerStartError } from './errorHandler';
+
+/**
+ * Module scripts and preloads the LWR layout emits for the root route, e.g.
+ * `<script type="module" src="/1/application/esm/...">` or `<link rel="modulepreload" href="/1/module/esm/...">`
+ */
+const MODULE_URL_PATTERN = /<(?:script|link)\b[^>]*?\s(?:src|href)="(\/[^"]+)"[^>]*>/gi;
+
+/**
+ * Fetch a URL from the local server
+ *
+ * @returns The status code and body, or null when the request fails or times out
+ */
+function fetchLocal(url: string): Promise<{ statusCode: number; body: string } | null> {
+    return new Promise(resolve => {
+        const request = http.get(url, { timeout: SERVER_HEALTH_CHECK_TIMEOUT }, (response) => {
+            let body = '';
+            response.setEncoding('utf8');
+            response.on('data', (chunk: string) => {
+                body += chunk;
+            });
+            response.on('end', () => resolve({ statusCode: response.statusCode || 0, body }));
+            response.on('error', () => resolve(null));
+        });
+
+        request.on('timeout', () => request.destroy());
+        request.on('error', () => resolve(null));
+    });
+}
+
+/**
+ * Find the first module URL referenced by the root route, skipping stylesheets and other assets
+ */
+function findModuleUrl(html: string): string | null {
+    for (const match of html.matchAll(MODULE_URL_PATTERN)) {
+        const tag = match[0];
+        if (/\btype="module"/i.test(tag) || /\brel="modulepreload"/i.test(tag) || /\.js(?:\?|$)/i.test(match[1])) {
+            return match[1];
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Check if the LWR server on a port can serve the preview
+ * The root route must render, and the first module it references must compile and load,
+ * so a server that accepts connections but is still building does not count as healthy
+ *
+ * @param port - Port of the LWR server
+ */
+export async function isServerHealthy(port: number): Promise<boolean> {
+    const origin = `http://localhost:${port}`;
+
+    const root = await fetchLocal(`${origin}/`);
+    if (!root || root.statusCode !== 200) {
+        return false;
+    }
+
+    const moduleUrl = findModuleUrl(root.body);
+    if (!moduleUrl) {
+        return true;
+    }
+
+    const moduleResponse = await fetchLocal(`${origin}${moduleUrl}`);
+    return !!moduleResponse && moduleResponse.statusCode === 200;
+}
+
+/**
+ * Wait for a server to reach the ready state
+ *
+ * @param onDidChangeState - Event fired on every state change of the server
+ * @param currentState - State of the server now
+ * @param timeout - Milliseconds to wait before giving up
+ * @throws ServerStartError if the server stops or fails, or is not ready in time
+ */
+export function waitForServerReady(
+    onDidChangeState: vscode.Event<ServerState>,
+    currentState: ServerState,
+    timeout: number
+): Promise<void> {
+    if (currentState === 'ready') {
+        return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+        const finish = (error: Error | null) => {
+            clearTimeout(timer);
+            listener.dispose();
+            if (error) {
+                reject(error);
+            } else {
+                resolve();
+            }
+        };
+
+        const timer = setTimeout(() => {
+            finish(new ServerStartError(`Server was not ready within ${timeout / 1000}s`));
+        }, timeout);
+
+        const listener = onDidChangeState(state => {
+            if (state === 'ready') {
+                finish(null);
+            } else if (state === 'failed' || state === 'stopped') {
+                finish(new ServerStartError(`Server ${state === 'failed' ? 'failed' : 'stopped'} before it was ready`));
+            }
+        });
+    });
+}
@@ -0,0 +1,96 @@
+import * as net from 'net';
+import { LWR_SERVER_PORT } from '../constants';
+import { logger } from './logger';
+
+/**
+ * Number of ports after the configured one that are tried before letting the OS pick one
+ */
+const PORT_SEARCH_RANGE = 20;
+
+/**
+ * Interval at which a port is checked while waiting for it to be released
+ */
+const PORT_RELEASE_CHECK_INTERVAL = 250;
+
+/**
+ * Check if nothing is listening on a port, by briefly listening on it
+ * Listens on all interfaces, so servers bound to either IPv4 or IPv6 localhost count as using the port
+ */
+export function isPortAvailable(port: number): Promise<boolean> {
+    return new Promise(resolve => {
+        const server = net.createServer();
+
+        server.once('error', () => resolve(false));
+        server.once('listening', () => {
+            server.close(() => resolve(true));
+        });
+
+        server.listen(port);
+    });
+}
+
+/**
+ * Get a port picked by the OS from its ephemeral range
+ */
+function getEphemeralPort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer();
+
+        server.once('error', reject);
+        server.once('listening', () => {
+            const address = server.address();
+            const port = typeof address === 'object' && address ? address.port : 0;
+            server.close(() => (port ? resolve(port) : reject(new Error('No port was assigned'))));
+        });
+
+        server.listen(0);
+    });
+}
+
+/**
+ * Find a port for a preview server
+ *
+ * @param preferredPort - Configured port; `0` lets the OS pick a free port
+ * @param reservedPorts - Ports already handed to other servers of this window that may not be listening yet
+ * @returns The preferred port when it is free, else the next free port after it, else a port picked by the OS
+ */
+export async function findAvailablePort(preferredPort: number, reservedPorts: Set<number> = new Set()): Promise<number> {
+    if (preferredPort > 0) {
+        for (let port = preferredPort; port < preferredPort + PORT_SEARCH_RANGE && port <= 65535; port++) {
+            if (!reservedPorts.has(port) && await isPortAvailable(port)) {
+                if (port !== preferredPort) {
+                    logger.info(`Port ${preferredPort} is in use, using port ${port}`);
+                }
+                return port;
+            }
+        }
+    }
+
+    try {
+        let port = await getEphemeralPort();
+        while (reservedPorts.has(port)) {
+            port = await getEphemeralPort();
+        }
+        return port;
+    } catch (error) {
+        logger.error('Failed to find a free port:', error);
+        return preferredPort || LWR_SERVER_PORT;
+    }
+}
+
+/**
+ * Wait until nothing listens on a port anymore, e.g. after stopping a server
+ *
+ * @returns False if the port was still in use after the timeout
+ */
+export async function waitForPortRelease(port: number, timeout: number): Promise<boolean> {
+    let elapsed = 0;
+    while (!(await isPortAvailable(port))) {
+        if (elapsed >= timeout) {
+            return false;
+        }
+        await new Promise(resolve => setTimeout(resolve, PORT_RELEASE_CHECK_INTERVAL));
+        elapsed += PORT_RELEASE_CHECK_INTERVAL;
+    }
+    return true;
+}
@@ -0,0 +1,128 @@
+import * as childProcess from 'child_process';
+import { ServerProcessRecord } from '../types';
+import { isPortAvailable } from './serverPort';
+import { logger } from './logger';
+
+/**
+ * Interval at which a terminated process tree is checked for exit
+ */
+const EXIT_CHECK_INTERVAL = 100;
+
+/**
+ * Time a process tree gets to exit after SIGKILL before giving up on it
+ */
+const KILL_GRACE_PERIOD = 2000;
+
+/**
+ * Time the system gets to report the start time of a process
+ */
+const START_TIME_TIMEOUT = 5000;
+
+/**
+ * Check if a process tree is still running
+ * On POSIX the server is spawned as a process group leader, so the whole group is checked
+ */
+export function isProcessTreeAlive(pid: number): boolean {
+    try {
+        process.kill(process.platform === 'win32' ? pid : -pid, 0);
+        return true;
+    } catch (error) {
+        // EPERM means the process exists but belongs to someone else
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
+
+/**
+ * Get the start time of a process, which tells it apart from a later process that reuses its id
+ *
+ * @returns Start time as reported by the system, or null if the process is not running or the time could not be read
+ */
+export function getProcessStartTime(pid: number): Promise<string | null> {
+    const [command, args]: [string, string[]] = process.platform === 'win32'
+        ? ['powershell.exe', ['-NoProfile', '-Command', `(Get-Process -Id ${pid}).StartTime.ToFileTimeUtc()`]]
+        : ['ps', ['-o', 'lstart=', '-p', String(pid)]];
+
+    return new Promise(resolve => {
+        childProcess.execFile(command, args, { timeout: START_TIME_TIMEOUT, windowsHide: true }, (error, stdout) => {
+            const startTime = stdout.trim();
+            resolve(error || !startTime ? null : startTime);
+        });
+    });
+}
+
+/**
+ * Send a signal to a process and everything it spawned
+ * Windows has no process groups or graceful signals for console apps, so the tree is always force killed there
+ */
+function signalProcessTree(pid: number, signal: NodeJS.Signals): void {
+    try {
+        if (process.platform === 'win32') {
+            childProcess.spawnSync('taskkill', ['/pid', String(pid), '/T', '/F'], { windowsHide: true });
+        } else {
+            process.kill(-pid, signal);
+        }
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ESRCH') {
+            logger.warn(`Failed to send ${signal} to process ${pid}:`, error);
+        }
+    }
+}
+
+/**
+ * Wait until a process tree has exited
+ *
+ * @returns False if it was still running after the timeout
+ */
+async function waitForProcessTreeExit(pid: number, timeout: number): Promise<boolean> {
+    let elapsed = 0;
+    while (isProcessTreeAlive(pid)) {
+        if (elapsed >= timeout) {
+            return false;
+        }
+        await new Promise(resolve => setTimeout(resolve, EXIT_CHECK_INTERVAL));
+        elapsed += EXIT_CHECK_INTERVAL;
+    }
+    return true;
+}
+
+/**
+ * Stop a process and everything it spawned: SIGTERM first, then SIGKILL if it has not exited in time
+ * `npm start` runs through a shell, so killing only the spawned process would orphan the LWR server
+ *
+ * @param pid - Process id of the spawned process, which leads its process group
+ * @param timeout - Milliseconds to wait for a graceful exit
+ * @returns False if the process tree could not be stopped
+ */
+export async function terminateProcessTree(pid: number, timeout: number): Promise<boolean> {
+    signalProcessTree(pid, 'SIGTERM');
+    if (await waitForProcessTreeExit(pid, timeout)) {
+        return true;
+    }
+
+    logger.warn(`Server process ${pid} did not exit within ${timeout}ms, killing it`);
+    signalProcessTree(pid, 'SIGKILL');
+    return waitForProcessTreeExit(pid, KILL_GRACE_PERIOD);
+}
+
+/**
+ * Stop a server left running by a previous session, e.g. after VS Code crashed
+ * The recorded process only counts as a leftover server while it still runs with the recorded start time
+ * and its port is still taken, so a process id reused by an unrelated process is left alone
+ *
+ * @param record - Process id, start time and port recorded when the server was started
+ * @param timeout - Milliseconds to wait for a graceful exit
+ * @returns True if a stale server was found and stopped
+ */
+export async function cleanupStaleServer(record: ServerProcessRecord, timeout: number): Promise<boolean> {
+    if (!isProcessTreeAlive(record.pid) || await isPortAvailable(record.port)) {
+        return false;
+    }
+
+    if (await getProcessStartTime(record.pid) !== record.startTime) {
+        logger.info(`Process ${record.pid} is not the server of a previous session anymore, leaving it running`);
+        return false;
+    }
+
+    logger.info(`Stopping stale server ${record.pid} on port ${record.port} from a previous session`);
+    return terminateProcessTree(record.pid, timeout);
+}
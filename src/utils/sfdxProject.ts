@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    DEFAULT_NAMESPACE,
+    DEFAULT_PACKAGE_DIRECTORY,
+    LABELS_FILE_SUFFIX,
+    LABELS_FOLDER_NAME,
+    LWC_FOLDER_NAME,
+    SFDX_PROJECT_FILE
+} from '../constants';
+import { SfdxProject } from '../types';
+import { isJsonObject } from './json';
+import { logger } from './logger';
+
+/**
+ * Read and parse the workspace's sfdx-project.json
+ *
+ * @param workspaceRoot - Root of the SFDX workspace
+ * @returns Parsed project file, or null if it is missing or invalid
+ */
+export function readSfdxProject(workspaceRoot: string): SfdxProject | null {
+    const projectFilePath = path.join(workspaceRoot, SFDX_PROJECT_FILE);
+
+    let content: unknown;
+    try {
+        content = JSON.parse(fs.readFileSync(projectFilePath, 'utf8'));
+    } catch (error) {
+        logger.error(`Failed to read ${SFDX_PROJECT_FILE}:`, error);
+        return null;
+    }
+
+    if (!isJsonObject(content)) {
+        logger.error(`Failed to read ${SFDX_PROJECT_FILE}: the file does not contain an object`);
+        return null;
+    }
+
+    const packageDirectories = Array.isArray(content.packageDirectories) ? content.packageDirectories : [];
+    return {
+        namespace: typeof content.namespace === 'string' ? content.namespace : undefined,
+        packageDirectories: packageDirectories
+            .map(packageDirectory => isJsonObject(packageDirectory) ? packageDirectory.path : undefined)
+            .filter((packagePath): packagePath is string => typeof packagePath === 'string' && packagePath.trim() !== '')
+    };
+}
+
+/**
+ * Get the namespace declared in sfdx-project.json
+ *
+ * @param workspaceRoot - Root of the SFDX workspace
+ * @returns The namespace (e.g., 'acme'), or null when the project has none
+ */
+export function getNamespace(workspaceRoot: string): string | null {
+    const namespace = readSfdxProject(workspaceRoot)?.namespace;
+    if (namespace === undefined) {
+        return null;
+    }
+
+    const trimmedNamespace = namespace.trim();
+    if (!/^[a-zA-Z]\w*$/.test(trimmedNamespace) || trimmedNamespace === DEFAULT_NAMESPACE) {
+        return null;
+    }
+
+    return trimmedNamespace;
+}
+
+/**
+ * Get the package directories declared in sfdx-project.json, in declaration order
+ * Falls back to `force-app` when the project file declares none
+ *
+ * @param workspaceRoot - Root of the SFDX workspace
+ * @returns Absolute paths of the existing package directories
+ */
+export function getPackageDirectories(workspaceRoot: string): string[] {
+    const declaredPaths = readSfdxProject(workspaceRoot)?.packageDirectories || [];
+    const packagePaths = declaredPaths.length > 0 ? declaredPaths : [DEFAULT_PACKAGE_DIRECTORY];
+    const uniquePaths = Array.from(new Set(packagePaths.map(packagePath => path.resolve(workspaceRoot, packagePath))));
+
+    return uniquePaths.filter(packagePath => fs.existsSync(packagePath));
+}
+
+/**
+ * Recursively collect the folders with a given name inside a directory, e.g. `lwc`
+ * Dot folders and node_modules are skipped, and matching folders are not searched further
+ */
+function collectFolders(directoryPath: string, folderName: string, folders: string[]): void {
+    let entries: fs.Dirent[];
+    try {
+        entries = fs.readdirSync(directoryPath, { withFileTypes: true });
+    } catch (error) {
+        logger.error(`Failed to read ${directoryPath}:`, error);
+        return;
+    }
+
+    for (const entry of entries) {
+        if (!entry.isDirectory() || entry.name.startsWith('.') || entry.name === 'node_modules') {
+            continue;
+        }
+
+        const entryPath = path.join(directoryPath, entry.name);
+        if (entry.name === folderName) {
+            folders.push(entryPath);
+        } else {
+            collectFolders(entryPath, folderName, folders);
+        }
+    }
+}
+
+/**
+ * Find every LWC folder across the package directories of the project
+ *
+ * @param workspaceRoot - Root of the SFDX workspace
+ * @returns Absolute paths of `lwc` folders, ordered by package directory
+ *
+ * @example
+ * findLwcFolders('/ws')
+ * // Returns: ['/ws/core/main/default/lwc', '/ws/sales/main/default/lwc']
+ */
+export function findLwcFolders(workspaceRoot: string): string[] {
+    const lwcFolders: string[] = [];
+
+    for (const packageDirectory of getPackageDirectories(workspaceRoot)) {
+        const packageLwcFolders: string[] = [];
+        collectFolders(packageDirectory, LWC_FOLDER_NAME, packageLwcFolders);
+        lwcFolders.push(...packageLwcFolders.sort());
+    }
+
+    return Array.from(new Set(lwcFolders));
+}
+
+/**
+ * Find every custom labels file across the package directories of the project
+ *
+ * @param workspaceRoot - Root of the SFDX workspace
+ * @returns Absolute paths of `*.labels-meta.xml` files in `labels` folders, ordered by package directory
+ *
+ * @example
+ * findCustomLabelFiles('/ws')
+ * // Returns: ['/ws/core/main/default/labels/CustomLabels.labels-meta.xml']
+ */
+export function findCustomLabelFiles(workspaceRoot: string): string[] {
+    const labelFiles: string[] = [];
+
+    for (const packageDirectory of getPackageDirectories(workspaceRoot)) {
+        const labelFolders: string[] = [];
+        collectFolders(packageDirectory, LABELS_FOLDER_NAME, labelFolders);
+
+        for (const labelFolder of labelFolders.sort()) {
+            try {
+                labelFiles.push(...fs.readdirSync(labelFolder)
+                    .filter(fileName => fileName.endsWith(LABELS_FILE_SUFFIX))
+                    .sort()
+                    .map(fileName => path.join(labelFolder, fileName)));
+            } catch (error) {
+                logger.error(`Failed to read ${labelFolder}:`, error);
+            }
+        }
+    }
+
+    return labelFiles;
+}
@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SyncReconcileResult } from '../types';
+import { FileSyncError } from './errorHandler';
+import { deleteDirectoryRecursive, ensureDirectory, isSymbolicLink } from './fileSystem';
+import { logger } from './logger';
+
+/**
+ * Name of the throwaway link used to probe for link support
+ */
+const LINK_PROBE_NAME = '.lwc-preview-link-probe';
+
+/**
+ * Create a directory link; a junction on Windows, which needs no extra privileges
+ */
+function createDirectoryLink(targetPath: string, linkPath: string): void {
+    fs.symlinkSync(targetPath, linkPath, process.platform === 'win32' ? 'junction' : 'dir');
+}
+
+/**
+ * Remove a staged entry, whether it is a link, a file or a copied directory
+ */
+function removeStagedEntry(entryPath: string): void {
+    if (isSymbolicLink(entryPath) || !fs.statSync(entryPath).isDirectory()) {
+        fs.unlinkSync(entryPath);
+    } else {
+        deleteDirectoryRecursive(entryPath);
+    }
+}
+
+/**
+ * Check if directory links can be created in a folder
+ *
+ * @param dirPath - Folder the links would be created in
+ * @returns False on platforms or filesystems without link support
+ */
+export function supportsDirectoryLinks(dirPath: string): boolean {
+    const probePath = path.join(dirPath, LINK_PROBE_NAME);
+
+    try {
+        ensureDirectory(dirPath);
+        if (isSymbolicLink(probePath)) {
+            fs.unlinkSync(probePath);
+        }
+
+        createDirectoryLink(dirPath, probePath);
+        const isSupported = fs.realpathSync(probePath) === fs.realpathSync(dirPath);
+        fs.unlinkSync(probePath);
+        return isSupported;
+    } catch (error) {
+        logger.warn(`Directory links are not supported in ${dirPath}:`, error);
+        return false;
+    }
+}
+
+/**
+ * Point a staged component at its source directory, replacing whatever is staged there
+ */
+export function linkComponentDirectory(sourceDirPath: string, linkPath: string): void {
+    try {
+        if (isSymbolicLink(linkPath) || fs.existsSync(linkPath)) {
+            removeStagedEntry(linkPath);
+        }
+
+        ensureDirectory(path.dirname(linkPath));
+        createDirectoryLink(sourceDirPath, linkPath);
+    } catch (error) {
+        throw new FileSyncError(
+            `Failed to link ${linkPath} to ${sourceDirPath}`,
+            error instanceof Error ? error : new Error(String(error))
+        );
+    }
+}
+
+/**
+ * Make the staging folder contain exactly one link per component, pointing at its source directory
+ *
+ * Nothing is copied, so the LWR server compiles the workspace sources directly. Copied
+ * components and links to other directories are replaced; other staged entries are removed.
+ *
+ * @param componentDirectories - Source directory of every component, by component name
+ * @param stagingRoot - Folder the components are staged into (e.g., `src/modules/c`)
+ * @returns `copied` counts the created links
+ */
+export function linkStagingFolder(componentDirectories: Map<string, string>, stagingRoot: string): SyncReconcileResult {
+    const result: SyncReconcileResult = { copied: 0, unchanged: 0, removed: 0 };
+    const unlinkedComponents = new Map(componentDirectories);
+
+    try {
+        ensureDirectory(stagingRoot);
+
+        for (const entry of fs.readdirSync(stagingRoot)) {
+            const entryPath = path.join(stagingRoot, entry);
+            const sourceDirPath = componentDirectories.get(entry);
+
+            if (!sourceDirPath) {
+                removeStagedEntry(entryPath);
+                result.removed++;
+            } else if (isSymbolicLink(entryPath) && fs.existsSync(entryPath) &&
+                fs.realpathSync(entryPath) === fs.realpathSync(sourceDirPath)) {
+                result.unchanged++;
+                unlinkedComponents.delete(entry);
+            }
+        }
+
+        unlinkedComponents.forEach((sourceDirPath, componentName) => {
+            linkComponentDirectory(sourceDirPath, path.join(stagingRoot, componentName));
+            result.copied++;
+        });
+    } catch (error) {
+        if (error instanceof FileSyncError) {
+            throw error;
+        }
+        throw new FileSyncError(
+            `Failed to link components into ${stagingRoot}`,
+            error instanceof Error ? error : new Error(String(error))
+        );
+    }
+
+    return result;
+}
@@ -0,0 +1,166 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SyncManifest, SyncReconcileResult } from '../types';
+import { FileSyncError } from './errorHandler';
+import { copyFile, isSymbolicLink, shouldCopyFile } from './fileSystem';
+import { logger } from './logger';
+
+/**
+ * Bumped whenever the manifest format changes; older manifests are discarded
+ */
+const MANIFEST_VERSION = 2;
+
+/**
+ * Load the manifest written by the last reconciliation
+ *
+ * @returns The manifest, or an empty one if it is missing, unreadable or outdated
+ */
+export function loadSyncManifest(manifestPath: string): SyncManifest {
+    const emptyManifest: SyncManifest = { version: MANIFEST_VERSION, files: {} };
+
+    try {
+        if (!fs.existsSync(manifestPath)) {
+            return emptyManifest;
+        }
+
+        const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+        if (manifest?.version !== MANIFEST_VERSION || typeof manifest.files !== 'object' || !manifest.files) {
+            return emptyManifest;
+        }
+        return manifest;
+    } catch (error) {
+        logger.error('Failed to read sync manifest, doing a full sync:', error);
+        return emptyManifest;
+    }
+}
+
+/**
+ * Write the sync manifest
+ */
+export function saveSyncManifest(manifestPath: string, manifest: SyncManifest): void {
+    try {
+        fs.writeFileSync(manifestPath, JSON.stringify(manifest));
+    } catch (error) {
+        // A missing manifest only makes the next startup slower
+        logger.error('Failed to write sync manifest:', error);
+    }
+}
+
+/**
+ * Get the stats of a path, or null if it does not exist
+ */
+function statOrNull(filePath: string): fs.Stats | null {
+    try {
+        return fs.statSync(filePath);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Delete staged files that have no source, and directories left empty
+ *
+ * @returns Number of deleted files
+ */
+function removeOrphans(dirPath: string, relativeDirPath: string, sourceFiles: Map<string, string>): number {
+    let removed = 0;
+
+    for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+        const entryPath = path.join(dirPath, entry.name);
+        const relativePath = relativeDirPath ? `${relativeDirPath}/${entry.name}` : entry.name;
+
+        if (entry.isDirectory()) {
+            removed += removeOrphans(entryPath, relativePath, sourceFiles);
+            if (fs.readdirSync(entryPath).length === 0) {
+                fs.rmdirSync(entryPath);
+            }
+        } else if (!sourceFiles.has(relativePath)) {
+            fs.unlinkSync(entryPath);
+            removed++;
+        }
+    }
+
+    return removed;
+}
+
+/**
+ * Make the staging folder an exact copy of the given source files
+ *
+ * Files whose source and staged copy both still have the size and modification
+ * time recorded in the manifest are trusted without reading them; other sources are only copied when their contents differ from the
+ * staged copy. Staged files without a source are removed, and the manifest
+ * is rewritten for the next pass.
+ *
+ * @param sourceFiles - Source path of every file to stage, by staged path (forward slashes)
+ * @param stagingRoot - Folder the files are staged into (e.g., `src/modules/c`)
+ * @param manifestPath - Where the manifest is kept
+ *
+ * @example
+ * reconcileStagingFolder(new Map([['card/card.js', '/ws/force-app/main/default/lwc/card/card.js']]), stagingRoot, manifestPath)
+ * // Returns: { copied: 1, unchanged: 0, removed: 3 }
+ */
+export function reconcileStagingFolder(
+    sourceFiles: Map<string, string>,
+    stagingRoot: string,
+    manifestPath: string
+): SyncReconcileResult {
+    const previousManifest = loadSyncManifest(manifestPath);
+    const nextManifest: SyncManifest = { version: MANIFEST_VERSION, files: {} };
+    const result: SyncReconcileResult = { copied: 0, unchanged: 0, removed: 0 };
+
+    try {
+        // Components linked by the link strategy would be copied onto their own sources
+        if (fs.existsSync(stagingRoot)) {
+            for (const entry of fs.readdirSync(stagingRoot)) {
+                const entryPath = path.join(stagingRoot, entry);
+                if (isSymbolicLink(entryPath)) {
+                    fs.unlinkSync(entryPath);
+                }
+            }
+        }
+
+        sourceFiles.forEach((sourcePath, relativePath) => {
+            const destPath = path.join(stagingRoot, ...relativePath.split('/'));
+            const sourceStats = fs.statSync(sourcePath);
+            const destStats = statOrNull(destPath);
+            const previousEntry = previousManifest.files[relativePath];
+            const isStagedCopyIntact = !!previousEntry && !!destStats?.isFile()
+                && destStats.size === previousEntry.size && destStats.mtimeMs === previousEntry.stagedMtimeMs;
+
+            if (isStagedCopyIntact && previousEntry.size === sourceStats.size && previousEntry.mtimeMs === sourceStats.mtimeMs) {
+                nextManifest.files[relativePath] = previousEntry;
+                result.unchanged++;
+                return;
+            }
+
+            // The staged copy may have been updated since the manifest was written, so compare against it
+            if (destStats?.isFile() && !shouldCopyFile(sourcePath, destPath)) {
+                result.unchanged++;
+            } else {
+                copyFile(sourcePath, destPath);
+                result.copied++;
+            }
+
+            nextManifest.files[relativePath] = {
+                size: sourceStats.size,
+                mtimeMs: sourceStats.mtimeMs,
+                stagedMtimeMs: fs.statSync(destPath).mtimeMs
+            };
+        });
+
+        if (fs.existsSync(stagingRoot)) {
+            result.removed = removeOrphans(stagingRoot, '', sourceFiles);
+        }
+    } catch (error) {
+        if (error instanceof FileSyncError) {
+            throw error;
+        }
+        throw new FileSyncError(
+            `Failed to reconcile ${stagingRoot}`,
+            error instanceof Error ? error : new Error(String(error))
+        );
+    }
+
+    saveSyncManifest(manifestPath, nextManifest);
+    return result;
+}